@@ -4,10 +4,14 @@ import chalk from 'chalk'
 import ora from 'ora'
 import { execSync } from 'child_process'
 import { ConfigLoader } from './config/loader.js'
-import { BuildService } from './services/build.js'
-import { UploadService } from './services/upload.js'
-import { DeploymentService } from './services/deployment.js'
+import { BuildService, readBuildManifest, getBuildManifestPath, type BuildResult } from './services/build.js'
+import { UploadService, type UploadResult } from './services/upload.js'
+import { DeploymentService, type DeploymentResult } from './services/deployment.js'
+import { HistoryService, type DeploymentRecord } from './services/history.js'
+import { RollbackService, type RollbackResult, type RollbackTarget } from './services/rollback.js'
+import { WebDeploymentService } from './services/web-deployment.js'
 import { WebhookService, type WebhookEvent } from './services/webhook.js'
+import { templateErrors, TEMPLATE_VARIABLES } from './services/webhook-templates.js'
 
 const program = new Command()
 
@@ -42,6 +46,7 @@ program
   .option('-p, --product <product>', 'Override the product for deployment (e.g., novaskyn, lilith, thai)')
   .option('--skip-build', 'Skip the build step')
   .option('--skip-upload', 'Skip the upload step')
+  .option('-b, --branch <name>', 'Branch to publish a web preview of (with deploy preview)')
   .option('--dry-run', 'Show what would be deployed without actually deploying')
   .action(async (environment, options) => {
     const spinner = ora()
@@ -53,23 +58,51 @@ program
       if (!config || !configLoader) return
       
       const deploymentConfig = configLoader.getDeploymentConfig(config, environment)
-      const notifications = deploymentConfig.notifications
-      
-      // Check if notifications are enabled and this specific event is enabled
-      if (notifications?.enabled !== false && notifications?.events?.[event] !== false) {
-        await webhookService.sendNotification(
-          notifications?.webhook,
-          {
-            service: config.service.name,
-            product: config.service.product,
-            environment,
-            event,
-            message,
-            timestamp: new Date().toISOString(),
-            details
-          },
-          notifications?.rateLimitDelay
-        )
+      
+      // Each target applies its own event filter on top of the global one
+      webhookService.sendNotification(deploymentConfig.notifications, {
+        service: config.service.name,
+        product: config.service.product,
+        environment,
+        event,
+        message,
+        timestamp: new Date().toISOString(),
+        details
+      })
+    }
+    
+    // Facts gathered during the run for the deployment ledger
+    const ledger: { gitHash?: string, artifactPath?: string } = {}
+    
+    // Helper to append the outcome to the deployment history
+    const recordHistory = async (outcome: DeploymentRecord['outcome'], deployResult?: DeploymentResult, error?: string) => {
+      if (!config || !configLoader || options.dryRun) return
+      
+      try {
+        const deploymentConfig = configLoader.getDeploymentConfig(config, environment)
+        const workload = deployResult?.service || deployResult?.container || deployResult?.gitops
+        const historyService = new HistoryService(deploymentConfig.storage, deploymentConfig.history)
+        
+        await historyService.record({
+          id: HistoryService.newRecordId(),
+          service: config.service.name,
+          product: config.service.product,
+          environment,
+          deploymentType: deploymentConfig.deployment.type,
+          action: 'deploy',
+          gitHash: ledger.gitHash || 'unknown',
+          imageName: workload?.imageName || deployResult?.dockerhub?.repository,
+          imageTag: workload?.imageTag || deployResult?.dockerhub?.tags[0],
+          artifactPath: ledger.artifactPath,
+          outcome,
+          error,
+          duration: Date.now() - startTime,
+          operator: HistoryService.getOperator(),
+          timestamp: new Date().toISOString(),
+          result: deployResult
+        })
+      } catch (historyError: any) {
+        console.warn(chalk.yellow(`Failed to record deployment history: ${historyError.message}`))
       }
     }
     
@@ -77,6 +110,13 @@ program
     let configLoader: ConfigLoader
     
     try {
+      if (environment === 'preview' && !options.branch) {
+        throw new Error('deploy preview needs --branch <name>')
+      }
+      if (environment !== 'preview' && options.branch) {
+        throw new Error('--branch is only used with deploy preview')
+      }
+      
       // Load configuration
       spinner.start('Loading configuration...')
       configLoader = new ConfigLoader()
@@ -90,7 +130,7 @@ program
       const deploymentConfig = configLoader.getDeploymentConfig(config, environment)
       spinner.succeed('Configuration loaded')
       
-      console.log(chalk.blue(`\nDeploying ${config.service.name} (${config.service.product}) to ${environment}`))
+      console.log(chalk.blue(`\nDeploying ${config.service.name} (${config.service.product}) to ${environment}${options.branch ? ` for ${options.branch}` : ''}`))
       
       // Check for dry run mode
       if (options.dryRun) {
@@ -111,9 +151,10 @@ program
       
       // Build
       let buildService: BuildService | null = null
-      let buildResult: any = null
+      let buildResult: BuildResult | null = null
+      const buildConfig = configLoader.getBuildConfig(config, environment)
       const skipBuildTypes = ['web', 'container', 'npm', 'dockerhub']
-      if (!options.skipBuild && config.build && !skipBuildTypes.includes(deploymentConfig.deployment.type)) {
+      if (!options.skipBuild && buildConfig && !skipBuildTypes.includes(deploymentConfig.deployment.type)) {
         const buildStartTime = Date.now()
         await notify('buildStart', `Building ${config.service.name} with Docker`)
         
@@ -123,32 +164,50 @@ program
         // Register cleanup
         cleanupHandlers.push(() => buildService?.cleanup())
         
-        buildResult = await buildService.build(config.service, config.build, options.dryRun)
+        buildResult = await buildService.build(config.service, buildConfig, options.dryRun)
         spinner.succeed('Build completed')
         
         const buildDuration = Date.now() - buildStartTime
         await notify('buildSuccess', `Build completed for ${config.service.name}`, {
           duration: buildDuration,
-          gitHash: buildResult?.gitHash
+          gitHash: buildResult?.gitHash,
+          buildId: buildResult?.buildId
         })
       } else if (options.skipBuild) {
-        await notify('buildSkipped', `Build skipped for ${config.service.name}`)
+        // Reuse the artifact recorded by the previous build, for the types that upload one
+        const artifactTypes = ['service', 'lambda-zip']
+        if (artifactTypes.includes(deploymentConfig.deployment.type)) {
+          buildResult = readBuildManifest()
+        }
+        if (buildResult) {
+          console.log(chalk.gray(`Reusing build ${buildResult.buildId} (${buildResult.gitHash}) from ${buildResult.binaryPath}`))
+          if (buildResult.gitHash !== gitHash) {
+            console.warn(chalk.yellow(`⚠️  Reused build is from ${buildResult.gitHash}, but HEAD is ${gitHash}`))
+          }
+        }
+        await notify('buildSkipped', `Build skipped for ${config.service.name}`, {
+          gitHash,
+          buildId: buildResult?.buildId
+        })
       }
       
       // Upload
       let artifactPath: string | undefined
+      let uploadResult: UploadResult | undefined
       const skipUploadTypes = ['web', 'container', 'npm', 'dockerhub']
       if (!options.skipUpload && !skipUploadTypes.includes(deploymentConfig.deployment.type)) {
         const uploadStartTime = Date.now()
         await notify('uploadStart', `Uploading artifacts for ${config.service.name}`)
         
         spinner.start('Uploading artifacts...')
-        const uploadService = new UploadService()
-        artifactPath = await uploadService.upload(
+        const uploadService = new UploadService(spinner)
+        uploadResult = await uploadService.upload(
           config.service,
           deploymentConfig,
-          options.dryRun
+          options.dryRun,
+          buildResult
         )
+        artifactPath = uploadResult.artifactPath
         spinner.succeed(`Artifacts uploaded to ${artifactPath}`)
         
         const uploadDuration = Date.now() - uploadStartTime
@@ -160,15 +219,20 @@ program
         await notify('uploadSkipped', `Upload skipped for ${config.service.name}`)
       }
       
+      ledger.gitHash = gitHash
+      ledger.artifactPath = artifactPath
+      
       // Deploy
       spinner.start('Deploying service...')
-      const deploymentService = new DeploymentService()
+      const deploymentService = new DeploymentService(spinner)
       
       // Send deployment type specific notification
+      const deployment = deploymentConfig.deployment
+      const usesGitOps = (deployment.type === 'service' ? deployment.service?.container : deployment.container)?.gitops
       if (!options.dryRun) {
-        if (deploymentConfig.deployment.type === 'service') {
+        if ((deployment.type === 'service' || deployment.type === 'container') && !usesGitOps) {
           await notify('podsRestarting', `Restarting pods for ${config.service.name}`)
-        } else if (deploymentConfig.deployment.type === 'web') {
+        } else if (deployment.type === 'web') {
           await notify('webDeploying', `Deploying web assets for ${config.service.name}`)
         }
       }
@@ -177,38 +241,89 @@ program
         config.service,
         deploymentConfig,
         options.dryRun,
-        buildResult?.gitHash || gitHash,
-        config
+        gitHash,
+        config,
+        uploadResult,
+        buildResult,
+        options.branch
       )
       
       spinner.succeed('Deployment completed')
       
       // Send deployment success details
+      if (deployResult.manifestUpdated) {
+        const message = deployResult.prUrl
+          ? `GitOps pull request opened for ${config.service.name}`
+          : `GitOps manifest updated for ${config.service.name}`
+        await notify('manifestUpdated', message, {
+          imageName: deployResult.gitops?.imageName,
+          commitHash: deployResult.commitHash,
+          prUrl: deployResult.prUrl
+        })
+      }
+      
       if (deployResult.podCount !== undefined && deployResult.podCount > 0) {
+        const workload = deployResult.container || deployResult.service || deployResult.gitops
         await notify('podsReady', `${deployResult.podCount} pod(s) ready for ${config.service.name}`, {
           count: deployResult.podCount,
-          podStatus: deployResult.podStatus
+          podStatus: deployResult.podStatus,
+          imageName: workload?.imageName,
+          namespace: workload?.namespace
+        })
+      } else if (deployResult.npm?.published) {
+        await notify('packagePublished', `${deployResult.npm.packageName}@${deployResult.npm.version} published for ${config.service.name}`, {
+          packageName: deployResult.npm.packageName,
+          version: deployResult.npm.version,
+          distTag: deployResult.npm.tag,
+          integrity: deployResult.npm.integrity
+        })
+      } else if (deployResult.dockerhub?.digest) {
+        await notify('imagePublished', `${deployResult.dockerhub.repository} published for ${config.service.name}`, {
+          imageName: deployResult.dockerhub.repository,
+          tags: deployResult.dockerhub.tags,
+          digest: deployResult.dockerhub.digest
+        })
+      } else if (deployResult.lambda && !options.dryRun) {
+        await notify('lambdaDeployed', `Lambda ${deployResult.lambda.functionName} updated for ${config.service.name}`, {
+          functionName: deployResult.lambda.functionName,
+          alias: deployResult.lambda.alias,
+          version: deployResult.lambda.version,
+          artifactPath
         })
       } else if (deployResult.deployedFiles !== undefined) {
-        await notify('webDeployed', `${deployResult.deployedFiles} files deployed for ${config.service.name}`, {
+        await notify('webDeployed', `${deployResult.deployedFiles} files deployed for ${config.service.name} (${deployResult.uploadedFiles ?? deployResult.deployedFiles} uploaded)`, {
+          gitHash,
+          release: deployResult.release,
           filesDeployed: deployResult.deployedFiles,
+          filesUploaded: deployResult.uploadedFiles,
+          filesSkipped: deployResult.skippedFiles,
+          filesDeleted: deployResult.deletedFiles,
+          size: deployResult.totalBytes !== undefined
+            ? `${(deployResult.totalBytes / 1024 / 1024).toFixed(2)} MB${deployResult.compressionSavedBytes ? ` (${(deployResult.compressionSavedBytes / 1024 / 1024).toFixed(2)} MB saved by compression)` : ''}`
+            : undefined,
           invalidationId: deployResult.invalidationId,
+          previewUrl: deployResult.previewUrl,
           buildTime: deployResult.buildTime,
           deployTime: deployResult.deployTime
         })
       }
       
       console.log(chalk.green(`\n✓ ${config.service.name} deployed successfully to ${environment}`))
+      if (deployResult.previewUrl) {
+        console.log(chalk.green(`  Preview: ${deployResult.previewUrl}`))
+      }
+      
+      await recordHistory('success', deployResult)
       
       // Send success notification
       const duration = Date.now() - startTime
       await notify('deploySuccess', `Successfully deployed ${config.service.name} to ${environment}`, {
         duration,
-        gitHash: buildResult?.gitHash || 'unknown'
+        gitHash
       })
       
       // Cleanup after successful deployment
-      if (buildService && config.build?.cleanupContainer) {
+      if (buildService && buildConfig?.cleanupContainer) {
         buildService.cleanup()
         await notify('cleanup', `Docker cleanup completed for ${config.service.name}`)
       }
@@ -223,8 +338,325 @@ program
           error: error.message || String(error),
           duration: Date.now() - startTime
         })
+        
+        // Web deploys that fail verification switch back to the previous release themselves
+        if (error.rolledBackTo) {
+          await notify('rollbackSuccess', `Rolled back ${config.service.name} in ${environment} to ${error.rolledBackTo} after failed verification`, {
+            gitHash: error.rolledBackTo,
+            previousGitHash: ledger.gitHash
+          })
+        }
       }
       
+      await recordHistory('failure', undefined, error.message || String(error))
+      
+      // process.exit() would cut off the queued deployError notification
+      await webhookService.flush()
+      process.exit(1)
+    } finally {
+      await webhookService.flush()
+    }
+  })
+
+program
+  .command('build [environment]')
+  .description('Build the service artifact without deploying')
+  .option('-c, --config <path>', 'Path to heimdizzy.yml', 'heimdizzy.yml')
+  .option('--dry-run', 'Show what would be built without building')
+  .action(async (environment, options) => {
+    const spinner = ora()
+    
+    try {
+      spinner.start('Loading configuration...')
+      const configLoader = new ConfigLoader()
+      const config = await configLoader.load(options.config)
+      const buildConfig = configLoader.getBuildConfig(config, environment)
+      spinner.succeed('Configuration loaded')
+      
+      if (!buildConfig) {
+        throw new Error(`No build configuration found${environment ? ` for environment: ${environment}` : ''}`)
+      }
+      
+      console.log(chalk.blue(`\nBuilding ${config.service.name}${environment ? ` for ${environment}` : ''}`))
+      
+      spinner.start('Building service...')
+      const buildService = new BuildService()
+      cleanupHandlers.push(() => buildService.cleanup())
+      
+      const buildResult = await buildService.build(config.service, buildConfig, options.dryRun)
+      spinner.succeed('Build completed')
+      
+      if (!options.dryRun) {
+        console.log(chalk.gray(`  Binary: ${buildResult.binaryPath}`))
+        console.log(chalk.gray(`  Size: ${buildResult.size} bytes`))
+        console.log(chalk.gray(`  SHA256: ${buildResult.sha256}`))
+        console.log(chalk.gray(`  Git Hash: ${buildResult.gitHash}`))
+        console.log(chalk.gray(`  Build ID: ${buildResult.buildId}`))
+        console.log(chalk.gray(`  Manifest: ${getBuildManifestPath()}`))
+      }
+      
+      console.log(chalk.green(`\n✓ ${config.service.name} built successfully`))
+    } catch (error) {
+      spinner.fail()
+      console.error(chalk.red('\nBuild failed:'), error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('history <environment>')
+  .description('List past deployments to the specified environment')
+  .option('-c, --config <path>', 'Path to heimdizzy.yml', 'heimdizzy.yml')
+  .option('-s, --service <name>', 'Only show deployments of this service')
+  .option('-p, --product <product>', 'Only show deployments for this product')
+  .option('--status <outcome>', 'Only show deployments with this outcome (success or failure)')
+  .option('--git-hash <hash>', 'Only show deployments of this git hash')
+  .option('-n, --limit <count>', 'Maximum number of deployments to show', '20')
+  .option('--json', 'Print records as JSON')
+  .action(async (environment, options) => {
+    try {
+      const configLoader = new ConfigLoader()
+      const config = await configLoader.load(options.config)
+      const deploymentConfig = configLoader.getDeploymentConfig(config, environment)
+      const historyService = new HistoryService(deploymentConfig.storage, deploymentConfig.history)
+      
+      const records = await historyService.list(environment, {
+        service: options.service,
+        product: options.product,
+        outcome: options.status,
+        gitHash: options.gitHash,
+        limit: parseInt(options.limit)
+      })
+      
+      if (options.json) {
+        console.log(JSON.stringify(records, null, 2))
+        return
+      }
+      
+      if (records.length === 0) {
+        console.log(chalk.yellow(`No deployments recorded for ${environment}`))
+        return
+      }
+      
+      // The newest successful deploy per service is what is running now
+      const runningServices = new Set<string>()
+      const current = new Set<string>()
+      for (const record of records) {
+        if (record.outcome === 'success' && !runningServices.has(record.service)) {
+          runningServices.add(record.service)
+          current.add(record.id)
+        }
+      }
+      
+      console.log(chalk.blue(`\nDeployments to ${environment}:\n`))
+      for (const record of records) {
+        const marker = current.has(record.id) ? chalk.green('●') : ' '
+        const outcome = record.outcome === 'success' ? chalk.green('success') : chalk.red('failure')
+        const action = record.action === 'rollback' ? chalk.yellow(' (rollback)') : ''
+        const artifact = record.imageName || record.artifactPath || '-'
+        console.log(`${marker} ${chalk.gray(record.timestamp)}  ${record.service}${record.product ? ` (${record.product})` : ''}  ${chalk.cyan(record.gitHash)}  ${outcome}${action}  ${Math.round(record.duration / 1000)}s  ${record.operator}`)
+        console.log(chalk.gray(`    ${artifact}${record.error ? `  error: ${record.error.substring(0, 120)}` : ''}`))
+      }
+      console.log(chalk.gray(`\n${chalk.green('●')} currently running`))
+    } catch (error) {
+      console.error(chalk.red('Failed to read deployment history:'), error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('rollback <environment>')
+  .description('Roll the service back to a previous release')
+  .option('-c, --config <path>', 'Path to heimdizzy.yml', 'heimdizzy.yml')
+  .option('-p, --product <product>', 'Override the product for deployment (e.g., novaskyn, lilith, thai)')
+  .option('--to <gitHash|tag>', 'Release to roll back to (defaults to the one before the current release)')
+  .option('--dry-run', 'Show what would be rolled back without changing anything')
+  .action(async (environment, options) => {
+    const spinner = ora()
+    const startTime = Date.now()
+    const webhookService = new WebhookService()
+    
+    let config: any
+    let deploymentConfig: any
+    let current: DeploymentRecord | undefined
+    let target: RollbackTarget | undefined
+    
+    // Helper to send notifications
+    const notify = async (event: WebhookEvent, message: string, details?: any) => {
+      if (!config || !deploymentConfig) return
+      
+      webhookService.sendNotification(deploymentConfig.notifications, {
+        service: config.service.name,
+        product: config.service.product,
+        environment,
+        event,
+        message,
+        timestamp: new Date().toISOString(),
+        details
+      })
+    }
+    
+    // Helper to append the rollback to the deployment history
+    const recordHistory = async (outcome: DeploymentRecord['outcome'], rollbackResult?: RollbackResult, error?: string) => {
+      if (!config || !deploymentConfig || !target || options.dryRun) return
+      
+      await new HistoryService(deploymentConfig.storage, deploymentConfig.history).record({
+        id: HistoryService.newRecordId(),
+        service: config.service.name,
+        product: config.service.product,
+        environment,
+        deploymentType: deploymentConfig.deployment.type,
+        action: 'rollback',
+        gitHash: target.gitHash,
+        imageName: rollbackResult?.imageName,
+        imageTag: target.imageTag,
+        outcome,
+        error,
+        duration: Date.now() - startTime,
+        operator: HistoryService.getOperator(),
+        timestamp: new Date().toISOString(),
+        result: rollbackResult
+      })
+    }
+    
+    try {
+      spinner.start('Loading configuration...')
+      const configLoader = new ConfigLoader()
+      config = await configLoader.load(options.config)
+      
+      if (options.product) {
+        config.service.product = options.product
+      }
+      
+      deploymentConfig = configLoader.getDeploymentConfig(config, environment)
+      spinner.succeed('Configuration loaded')
+      
+      // Work out which release is running and which one to return to
+      spinner.start('Reading deployment history...')
+      const rollbackService = new RollbackService()
+      const historyService = new HistoryService(deploymentConfig.storage, deploymentConfig.history)
+      const records = await historyService.list(environment, {
+        service: config.service.name,
+        product: config.service.product,
+        outcome: 'success'
+      }, found => rollbackService.targetFound(found, options.to))
+      current = records[0]
+      target = await rollbackService.resolveTarget(deploymentConfig, records, options.to)
+      spinner.succeed(`Rolling back to ${target.imageTag || target.gitHash}${current ? ` (currently ${current.imageTag || current.gitHash})` : ''}`)
+      
+      if (current && current.gitHash === target.gitHash && !options.dryRun) {
+        console.log(chalk.yellow(`${target.gitHash} is already the current release, nothing to roll back`))
+        return
+      }
+      
+      if (!options.dryRun) {
+        await notify('rollbackStart', `Rolling back ${config.service.name} in ${environment} to ${target.gitHash}`, {
+          gitHash: target.gitHash,
+          previousGitHash: current?.gitHash
+        })
+      }
+      
+      const rollbackResult = await rollbackService.rollback(
+        config.service,
+        deploymentConfig,
+        target,
+        environment,
+        options.dryRun,
+        config
+      )
+      
+      if (options.dryRun) {
+        console.log(chalk.yellow('\n[DRY RUN] No changes were made'))
+        return
+      }
+      
+      await recordHistory('success', rollbackResult)
+      
+      console.log(chalk.green(`\n✓ ${config.service.name} rolled back to ${target.gitHash} in ${environment}`))
+      
+      await notify('rollbackSuccess', `Rolled back ${config.service.name} in ${environment} to ${target.gitHash}`, {
+        gitHash: target.gitHash,
+        previousGitHash: current?.gitHash,
+        duration: Date.now() - startTime,
+        imageName: rollbackResult.imageName,
+        namespace: rollbackResult.namespace,
+        count: rollbackResult.podCount,
+        commitHash: rollbackResult.gitops?.commitHash,
+        prUrl: rollbackResult.gitops?.prUrl,
+        filesRestored: rollbackResult.web?.restoredFiles ?? rollbackResult.release?.copiedFiles,
+        filesRemoved: rollbackResult.web?.removedFiles ?? rollbackResult.release?.removedFiles,
+        invalidationId: rollbackResult.web?.invalidationId ?? rollbackResult.release?.invalidationId
+      })
+    } catch (error: any) {
+      spinner.fail()
+      console.error(chalk.red('\nRollback failed:'), error)
+      
+      await notify('rollbackError', `Failed to roll back ${config?.service.name} in ${environment}`, {
+        error: error.message || String(error),
+        gitHash: target?.gitHash,
+        previousGitHash: current?.gitHash,
+        duration: Date.now() - startTime
+      })
+      
+      await recordHistory('failure', undefined, error.message || String(error))
+      
+      await webhookService.flush()
+      process.exit(1)
+    } finally {
+      await webhookService.flush()
+    }
+  })
+
+const preview = program
+  .command('preview')
+  .description('Manage web preview deployments')
+
+preview
+  .command('prune')
+  .description('Delete previews of deleted branches and previews older than the TTL')
+  .option('-c, --config <path>', 'Path to heimdizzy.yml', 'heimdizzy.yml')
+  .option('--ttl <days>', 'Delete previews not redeployed for this many days (defaults to web.preview.ttlDays)')
+  .option('--remote <name>', 'Git remote whose branches are still alive', 'origin')
+  .option('--dry-run', 'Show what would be deleted without deleting')
+  .action(async (options) => {
+    try {
+      const configLoader = new ConfigLoader()
+      const config = await configLoader.load(options.config)
+      const deploymentConfig = configLoader.getDeploymentConfig(config, 'preview')
+      const webConfig = deploymentConfig.deployment.web
+      if (deploymentConfig.deployment.type !== 'web' || !webConfig) {
+        throw new Error('The preview deployment must be of type web')
+      }
+      
+      // Without the remote's branches, only the TTL decides
+      let branches: string[] | undefined
+      try {
+        branches = execSync(`git ls-remote --heads ${options.remote}`, { encoding: 'utf-8' })
+          .split('\n')
+          .map(line => line.match(/\trefs\/heads\/(.+)$/)?.[1])
+          .filter((branch): branch is string => Boolean(branch))
+      } catch {
+        console.warn(chalk.yellow(`Could not list branches of ${options.remote}, pruning by age only`))
+      }
+      
+      const ttlDays = options.ttl !== undefined ? Number(options.ttl) : webConfig.preview.ttlDays
+      if (!Number.isFinite(ttlDays) || ttlDays < 0) {
+        throw new Error(`--ttl must be a number of days, got ${options.ttl}`)
+      }
+      console.log(chalk.blue(`\nPruning previews of ${config.service.name} older than ${ttlDays} days${branches ? ` or without a branch on ${options.remote}` : ''}`))
+      
+      const webDeploymentService = new WebDeploymentService()
+      const pruned = await webDeploymentService.prunePreviews(
+        deploymentConfig.storage,
+        webConfig,
+        ttlDays,
+        branches,
+        options.dryRun
+      )
+      
+      console.log(chalk.green(`\n✓ ${options.dryRun ? 'Would prune' : 'Pruned'} ${pruned.length} previews`))
+    } catch (error) {
+      console.error(chalk.red('\nPreview prune failed:'), error)
       process.exit(1)
     }
   })
@@ -236,7 +668,20 @@ program
   .action(async (options) => {
     try {
       const configLoader = new ConfigLoader()
-      await configLoader.load(options.config)
+      const config = await configLoader.load(options.config)
+
+      // Placeholders are only resolved at send time, so catch typos here
+      const templateProblems = config.deployments.flatMap(deployment =>
+        templateErrors(deployment.notifications?.templates)
+          .map(problem => `${deployment.name}: notifications.templates.${problem}`)
+      )
+      if (templateProblems.length > 0) {
+        console.error(chalk.red('✗ Notification templates are invalid:'))
+        templateProblems.forEach(problem => console.error(chalk.red(`  - ${problem}`)))
+        console.error(chalk.gray(`Available placeholders: ${TEMPLATE_VARIABLES.map(variable => `{{${variable}}}`).join(', ')}`))
+        process.exit(1)
+      }
+
       console.log(chalk.green('✓ Configuration is valid'))
     } catch (error) {
       console.error(chalk.red('✗ Configuration is invalid:'), error)
@@ -1,7 +1,7 @@
 import { readFileSync, existsSync, statSync } from 'fs'
 import { join, dirname } from 'path'
 import yaml from 'js-yaml'
-import { HeimdizzyConfigSchema, type HeimdizzyConfig } from './schema.js'
+import { HeimdizzyConfigSchema, type HeimdizzyConfig, type BuildConfig } from './schema.js'
 
 export class ConfigLoader {
   private configCache: Map<string, HeimdizzyConfig> = new Map()
@@ -69,6 +69,16 @@ export class ConfigLoader {
     return deployment
   }
   
+  /**
+   * Resolve the build configuration, preferring the deployment's override for the given environment
+   */
+  getBuildConfig(config: HeimdizzyConfig, environment?: string): BuildConfig | undefined {
+    if (!environment) {
+      return config.build
+    }
+    return this.getDeploymentConfig(config, environment).build || config.build
+  }
+  
   private expandEnvironmentVariables(content: string): string {
     return content.replace(/\$\{([^}]+)\}/g, (match, expression) => {
       // Handle ${VAR:-default} syntax
@@ -1,12 +1,21 @@
 import { z } from 'zod'
 
+export const UploadEngineConfigSchema = z.object({
+  concurrency: z.number().int().min(1).default(8).describe('Number of files uploaded in parallel'),
+  multipartThreshold: z.number().int().default(16 * 1024 * 1024).describe('Files larger than this many bytes use multipart upload'),
+  partSize: z.number().int().min(5 * 1024 * 1024).default(8 * 1024 * 1024).describe('Multipart part size in bytes (S3 minimum is 5 MiB)'),
+  maxRetries: z.number().int().min(0).default(4).describe('Retries for throttled, 5xx or network-failed requests'),
+  retryDelay: z.number().default(500).describe('Base retry delay in ms, doubled on every attempt')
+})
+
 export const S3ConfigSchema = z.object({
   endpoint: z.string().optional(),
   region: z.string().default('us-east-1'),
   bucket: z.string(),
   accessKeyId: z.string().optional(),
   secretAccessKey: z.string().optional(),
-  forcePathStyle: z.boolean().default(true)
+  forcePathStyle: z.boolean().default(true),
+  upload: UploadEngineConfigSchema.default({}).describe('Upload concurrency, multipart and retry settings')
 })
 
 export const SqlxConfigSchema = z.object({
@@ -35,31 +44,104 @@ export const BuildConfigSchema = z.object({
   sqlx: SqlxConfigSchema.optional().describe('SQLx configuration for compile-time query validation')
 })
 
+export const WebHeaderRuleSchema = z.object({
+  match: z.string().describe('Glob matched against the file path in buildDir (e.g. sw.js, *.wasm, /.well-known/*); patterns without a slash match the file name in any directory'),
+  cacheControl: z.string().optional().describe('Cache-Control, overriding cacheControl.html/assets'),
+  contentType: z.string().optional().describe('Content-Type, overriding the type guessed from the extension'),
+  contentDisposition: z.string().optional().describe('Content-Disposition (e.g. attachment)'),
+  metadata: z.record(z.string()).optional().describe('Custom x-amz-meta-* values')
+})
+
+export const WebRedirectRuleSchema = z.object({
+  from: z.string().startsWith('/').describe('Path to redirect (e.g. /old-page); in manifest mode a trailing * matches a prefix'),
+  to: z.string().describe('Target path or absolute URL'),
+  status: z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)]).default(301).describe('Redirect status; S3 website redirects are always 301')
+})
+
 export const WebDeploymentConfigSchema = z.object({
   buildCommand: z.string().optional().describe('Command to build the web assets (e.g. npm run build, bun run build:optimize)'),
   buildDir: z.string().default('dist').describe('Directory containing built assets'),
   indexFile: z.string().default('index.html').describe('Main HTML file'),
   path: z.string().optional().describe('S3 path prefix for deployment (e.g. novaskyn/frontend/staging)'),
+  prune: z.boolean().default(false).describe('Delete objects under path that are no longer in buildDir once the new index is live'),
   cloudfront: z.object({
     distributionId: z.string().optional().describe('CloudFront distribution ID for cache invalidation'),
-    paths: z.array(z.string()).default(['/*', '/index.html']).describe('Paths to invalidate')
+    paths: z.union([z.literal('auto'), z.array(z.string())]).default(['/*', '/index.html']).describe('Paths to invalidate, or auto to invalidate only the files this deploy changed'),
+    maxPaths: z.number().int().min(1).max(3000).default(100).describe('In auto mode, invalidate /* instead once more files than this changed'),
+    waitForCompletion: z.boolean().default(false).describe('Wait for the invalidation to complete before verification and post_deploy hooks'),
+    waitTimeout: z.number().default(600).describe('Seconds to wait for the invalidation to complete')
   }).optional(),
   cacheControl: z.object({
     html: z.string().default('no-cache, no-store, must-revalidate').describe('Cache control for HTML files'),
     assets: z.string().default('public, max-age=31536000').describe('Cache control for static assets')
   }).default({}),
+  headers: z.array(WebHeaderRuleSchema).default([]).describe('Header rules, evaluated in order; the first rule matching a file applies and unset fields keep the defaults'),
+  compression: z.object({
+    enabled: z.boolean().default(false).describe('Precompress text assets at deploy time'),
+    mode: z.enum(['inline', 'sidecar']).default('inline').describe('inline: store compressed bytes under the original key with Content-Encoding; sidecar: add .br/.gz objects next to the original for CDNs that negotiate'),
+    algorithms: z.array(z.enum(['br', 'gzip'])).min(1).default(['gzip']).describe('Encodings to produce; inline mode uses the first one that pays off'),
+    extensions: z.array(z.string()).default(['.js', '.mjs', '.css', '.html', '.svg', '.json', '.txt', '.xml', '.map']).describe('File extensions to compress'),
+    minSize: z.number().default(1024).describe('Skip files smaller than this many bytes'),
+    minSavings: z.number().min(0).max(1).default(0.1).describe('Skip files where compression saves less than this fraction')
+  }).optional().describe('Precompressed asset upload'),
+  routing: z.object({
+    mode: z.enum(['manifest', 'metadata']).default('manifest').describe('manifest: publish the rules as a JSON object for an edge function; metadata: write redirects as S3 website redirect objects'),
+    spaFallback: z.boolean().default(false).describe('Serve indexFile for paths that match no file (manifest mode)'),
+    redirects: z.array(WebRedirectRuleSchema).default([]).describe('Redirect rules, evaluated in order'),
+    manifestKey: z.string().default('_routing.json').describe('Manifest object name under path')
+  }).optional().describe('SPA fallback and redirects'),
+  releases: z.object({
+    enabled: z.boolean().default(false).describe('Upload each deploy to an immutable <prefix>/<path>/<gitHash>/ release and switch the live path over once it is complete'),
+    prefix: z.string().default('heimdizzy/releases').describe('Bucket prefix where releases are kept, outside the served path'),
+    retain: z.number().int().min(1).default(5).describe('Number of releases to keep for rollback')
+  }).default({}).describe('Versioned web releases'),
+  preview: z.object({
+    prefix: z.string().default('previews').describe('Bucket prefix where branch previews are uploaded, as <prefix>/<path>/<branch>/ outside the served path'),
+    url: z.string().optional().describe('Preview URL with a {branch} placeholder (e.g. https://{branch}.preview.example.com)'),
+    ttlDays: z.number().min(0).default(14).describe('preview prune deletes previews not redeployed for this many days')
+  }).default({}).describe('Branch preview deployments (deploy preview --branch)'),
   verification: z.object({
     enabled: z.boolean().default(true).describe('Enable deployment verification'),
+    baseUrl: z.string().url().optional().describe('URL the site is served from (e.g. https://app.example.com); endpoint paths are fetched relative to it'),
     endpoints: z.array(z.object({
       path: z.string().describe('Path to verify'),
-      expectedStatus: z.number().describe('Expected HTTP status code'),
+      expectedStatus: z.number().default(200).describe('Expected HTTP status code'),
       contains: z.string().optional().describe('Text that should be present in response')
     })).optional().describe('HTTP endpoints to verify after deployment'),
+    assetHashes: z.boolean().default(false).describe('Check that the served index file references the assets of this deploy'),
+    retries: z.number().int().min(0).default(10).describe('Attempts after the first, while the CDN picks up the new release'),
+    retryDelay: z.number().default(5000).describe('Delay between attempts in ms'),
+    timeout: z.number().default(10000).describe('Timeout per request in ms'),
+    rollbackOnFailure: z.boolean().default(true).describe('Switch back to the previous release when verification fails'),
     minioCheck: z.object({
       enabled: z.boolean().default(true).describe('Verify files in MinIO/S3'),
       minFiles: z.number().default(5).describe('Minimum expected file count')
     }).optional().describe('MinIO/S3 verification settings')
   }).optional().describe('Post-deployment verification configuration')
+}).superRefine((web, ctx) => {
+  // Releases are kept outside the served path, so that old builds and the index aren't reachable on the site
+  if (web.releases.enabled && !web.path) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['releases', 'enabled'], message: 'releases need a path, since the bucket root is served as a whole' })
+  }
+  const releasesPrefix = web.releases.prefix.replace(/\/+$/, '')
+  if (web.releases.enabled && web.path && (releasesPrefix === web.path || releasesPrefix.startsWith(`${web.path}/`))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['releases', 'prefix'], message: `releases.prefix must be outside path ${web.path}, where it would be served` })
+  }
+})
+
+export const ForgeConfigSchema = z.object({
+  provider: z.enum(['github', 'gitea']).default('github').describe('Git forge used to open pull requests'),
+  apiUrl: z.string().optional().describe('Forge REST API root (defaults to https://api.github.com, required for gitea)'),
+  repository: z.string().optional().describe('owner/repo of the GitOps repository (defaults to the origin remote)'),
+  token: z.string().optional().describe('API token (defaults to GITHUB_TOKEN or GITEA_TOKEN)')
+})
+
+export const GitOpsUpdateConfigSchema = z.object({
+  mode: z.enum(['push', 'pullRequest']).default('push').describe('Push manifest commits to the base branch or open a pull request'),
+  baseBranch: z.string().default('main').describe('Branch Flux reconciles from'),
+  requirePullRequestFor: z.array(z.enum(['development', 'staging', 'production'])).default(['production']).describe('Environments that always go through a pull request regardless of mode'),
+  forge: ForgeConfigSchema.default({}),
+  waitForRollout: z.boolean().default(false).describe('Wait for Flux to apply the commit and the new image to roll out (bounded by kubernetes.deploymentTimeout)')
 })
 
 export const ContainerDeploymentConfigSchema = z.object({
@@ -100,22 +182,61 @@ export const ContainerDeploymentConfigSchema = z.object({
     useExistingManifests: z.boolean().default(true).describe('Use existing K8s manifests'),
     gitOpsPath: z.string().optional().describe('Custom GitOps kustomization path (relative to repo root)'),
     deploymentTimeout: z.number().default(300).describe('Deployment rollout timeout in seconds'),
-    fluxNamespace: z.string().default('flux-system').describe('FluxCD namespace for GitOps operations')
+    containerName: z.string().optional().describe('Container that runs the image, for rollbacks (defaults to the Deployment\'s only container)'),
+    fluxNamespace: z.string().default('flux-system').describe('FluxCD namespace for GitOps operations'),
+    fluxKustomization: z.string().default('flux-system').describe('Flux Kustomization that reconciles this service')
   }),
-  gitops: z.boolean().default(true).describe('Use GitOps deployment pattern (recommended)')
+  gitops: z.boolean().default(false).describe('Update the GitOps kustomization and let Flux roll out the image instead of applying it directly (recommended)'),
+  gitopsUpdate: GitOpsUpdateConfigSchema.default({}).describe('How GitOps manifest changes reach the base branch')
 })
 
 export const ServiceDeploymentConfigSchema = z.object({
   container: ContainerDeploymentConfigSchema.describe('Container configuration for service deployment')
 })
 
+export const NpmDeploymentConfigSchema = z.object({
+  registry: z.string().default('https://registry.npmjs.org/').describe('Registry to publish to'),
+  access: z.enum(['public', 'restricted']).default('public').describe('Package access level'),
+  tag: z.string().default('latest').describe('dist-tag to publish under'),
+  packageDir: z.string().default('.').describe('Directory containing the package.json to publish'),
+  token: z.string().optional().describe('Registry auth token (defaults to NPM_TOKEN)')
+})
+
+export const DockerHubDeploymentConfigSchema = z.object({
+  repository: z.string().describe('Docker Hub repository (e.g. username/imagename)'),
+  tag: z.string().default('latest').describe('Primary image tag'),
+  tags: z.array(z.string()).default([]).describe('Additional tags to push'),
+  platform: z.array(z.string()).default(['linux/amd64']).describe('Target platforms for the buildx build'),
+  dockerfile: z.string().default('Dockerfile').describe('Path to Dockerfile'),
+  buildArgs: z.record(z.string()).optional().describe('Docker build arguments'),
+  username: z.string().optional().describe('Docker Hub username (defaults to DOCKER_USERNAME)'),
+  password: z.string().optional().describe('Docker Hub password or access token (defaults to DOCKER_PASSWORD)')
+})
+
+export const LambdaDeploymentConfigSchema = z.object({
+  functionName: z.string().describe('Lambda function name or ARN'),
+  alias: z.string().optional().describe('Alias to move to the newly published version (e.g. live)'),
+  memorySize: z.number().optional().describe('Memory in MB (left unchanged when omitted)'),
+  timeout: z.number().optional().describe('Timeout in seconds (left unchanged when omitted)'),
+  description: z.string().optional().describe('Description for published versions'),
+  region: z.string().optional().describe('Lambda region (defaults to the storage region)'),
+  endpoint: z.string().optional().describe('Custom Lambda API endpoint (e.g. a local stand-in)')
+})
+
+export type ForgeConfig = z.infer<typeof ForgeConfigSchema>
+export type GitOpsUpdateConfig = z.infer<typeof GitOpsUpdateConfigSchema>
+export type ContainerDeploymentConfig = z.infer<typeof ContainerDeploymentConfigSchema>
 export type ServiceDeploymentConfig = z.infer<typeof ServiceDeploymentConfigSchema>
 
 export const DeploymentSchema = z.object({
-  type: z.enum(['web', 'service']).default('service'),
+  type: z.enum(['web', 'service', 'container', 'npm', 'dockerhub', 'lambda-zip']).default('service'),
   runtime: z.enum(['rust', 'nodejs', 'python', 'go']).default('rust'),
   web: WebDeploymentConfigSchema.optional().describe('Web-specific deployment configuration'),
-  service: ServiceDeploymentConfigSchema.optional().describe('Service deployment with integrated migration support')
+  service: ServiceDeploymentConfigSchema.optional().describe('Service deployment with integrated migration support'),
+  container: ContainerDeploymentConfigSchema.optional().describe('Container deployment configuration'),
+  npm: NpmDeploymentConfigSchema.optional().describe('NPM package publishing configuration'),
+  dockerhub: DockerHubDeploymentConfigSchema.optional().describe('Docker Hub publishing configuration'),
+  lambda: LambdaDeploymentConfigSchema.optional().describe('Lambda function configuration for lambda-zip deployments')
 })
 
 export const HookSchema = z.object({
@@ -131,10 +252,71 @@ export const HooksSchema = z.object({
   post_deploy: z.array(HookSchema).optional().describe('Hooks to run after deployment')
 })
 
+export const NotificationEventSchema = z.enum([
+  'deployStart', 'deploySuccess', 'deployError',
+  'buildStart', 'buildSuccess', 'buildSkipped',
+  'uploadStart', 'uploadSuccess', 'uploadSkipped',
+  'podsRestarting', 'podsReady',
+  'webDeploying', 'webDeployed',
+  'manifestUpdated', 'packagePublished', 'imagePublished',
+  'lambdaDeployed',
+  'rollbackStart', 'rollbackSuccess', 'rollbackError',
+  'cleanup', 'dryRun'
+])
+
+export const NotificationTargetSchema = z.object({
+  name: z.string().optional().describe('Label used in logs'),
+  provider: z.enum(['discord', 'slack', 'teams', 'json']).default('discord').describe('Message format: Discord embed, Slack Block Kit, Teams Adaptive Card or the raw payload'),
+  url: z.string().url().optional().describe('Incoming webhook URL (not used by Slack live mode)'),
+  events: z.array(NotificationEventSchema).optional().describe('Only send these events (defaults to every enabled event)'),
+  cloudEvents: z.boolean().default(false).describe('json provider: wrap the payload in a CloudEvents 1.0 envelope'),
+  headers: z.record(z.string()).optional().describe('Extra request headers, e.g. for authentication'),
+  live: z.boolean().default(false).describe('Post one message per run and edit it into a progress checklist (discord, slack)'),
+  token: z.string().optional().describe('slack live mode: bot token with chat:write'),
+  channel: z.string().optional().describe('slack live mode: channel to post in')
+}).superRefine((target, ctx) => {
+  // Slack incoming webhooks can't edit what they posted, so live mode goes through the Web API instead
+  const slackLive = target.provider === 'slack' && target.live
+  if (!target.url && !slackLive) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'url is required' })
+  }
+  if (target.live && (target.provider === 'teams' || target.provider === 'json')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['live'], message: `${target.provider} targets can't edit messages; live mode needs discord or slack` })
+  }
+  if (slackLive && (!target.token || !target.channel)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['token'], message: 'slack live mode needs token and channel' })
+  }
+})
+
+export const NotificationTemplateSchema = z.object({
+  title: z.string().optional().describe('Replaces the event title, e.g. "🚀 {{service}} → {{environment}}"'),
+  message: z.string().optional().describe('Replaces the message text'),
+  fields: z.array(z.object({
+    name: z.string(),
+    value: z.string().describe('Fields that render empty are left out'),
+    inline: z.boolean().default(true)
+  })).optional().describe('Replaces the built-in fields')
+})
+
 export const NotificationSchema = z.object({
-  webhook: z.string().url().optional(),
+  webhook: z.string().url().optional().describe('Discord webhook URL, shorthand for a discord target'),
+  targets: z.array(NotificationTargetSchema).default([]).describe('Webhook targets, each with its own provider and event filter'),
   enabled: z.boolean().default(true),
-  rateLimitDelay: z.number().default(2000).describe('Delay in ms when rate limited'),
+  rateLimitDelay: z.number().default(2000).describe('Delay in ms before retrying when rate limited without a Retry-After header'),
+  delivery: z.object({
+    maxRetries: z.number().int().min(0).default(5).describe('Retries before a notification is given up'),
+    retryDelay: z.number().int().min(0).default(1000).describe('Base delay in ms between retries, doubled each attempt'),
+    maxRetryDelay: z.number().int().min(0).default(30000).describe('Upper bound for the delay between retries'),
+    coalesceWindow: z.number().int().min(0).default(2000).describe('Progress events arriving within this many ms go out as one chat message (0 disables)'),
+    progressEvents: z.array(NotificationEventSchema).default([
+      'buildStart', 'buildSuccess', 'buildSkipped',
+      'uploadStart', 'uploadSuccess', 'uploadSkipped',
+      'podsRestarting', 'webDeploying'
+    ]).describe('Events that may be coalesced and are not worth spooling'),
+    flushTimeout: z.number().int().min(0).default(30000).describe('Longest the CLI waits at exit for queued notifications'),
+    spool: z.boolean().default(true).describe('Keep notifications that could not be delivered and resend them on the next run'),
+    spoolPath: z.string().default('.heimdizzy/notifications.jsonl').describe('Spool file; webhook URLs are stored as hashes only')
+  }).default({}),
   events: z.object({
     deployStart: z.boolean().default(true),
     deploySuccess: z.boolean().default(true),
@@ -149,9 +331,24 @@ export const NotificationSchema = z.object({
     podsReady: z.boolean().default(true),
     webDeploying: z.boolean().default(true),
     webDeployed: z.boolean().default(true),
+    manifestUpdated: z.boolean().default(true),
+    packagePublished: z.boolean().default(true),
+    imagePublished: z.boolean().default(true),
+    lambdaDeployed: z.boolean().default(true),
+    rollbackStart: z.boolean().default(true),
+    rollbackSuccess: z.boolean().default(true),
+    rollbackError: z.boolean().default(true),
     cleanup: z.boolean().default(true),
     dryRun: z.boolean().default(true)
-  }).default({})
+  }).default({}),
+  templates: z.record(NotificationEventSchema, NotificationTemplateSchema).default({}).describe('Per-event message templates with {{placeholders}} over the payload'),
+  repositoryUrl: z.string().url().optional().describe('Web URL of the repository for {{commitUrl}} (defaults to the origin remote)')
+})
+
+export const HistoryConfigSchema = z.object({
+  enabled: z.boolean().default(true).describe('Record every deploy in the deployment ledger'),
+  prefix: z.string().default('heimdizzy/history').describe('Key prefix for ledger records in the storage bucket'),
+  localPath: z.string().default('.heimdizzy/history.jsonl').describe('Local ledger used when the bucket is unreachable')
 })
 
 export const GlobalConfigSchema = z.object({
@@ -165,7 +362,7 @@ export const HeimdizzyConfigSchema = z.object({
   version: z.literal('1.0'),
   service: z.object({
     name: z.string(),
-    type: z.enum(['web', 'service']).default('service'),
+    type: z.enum(['web', 'service', 'container']).default('service'),
     product: z.string().optional().describe('Product this service is deployed for'),
     category: z.string().optional().describe('Service category (e.g., infrastructure, core, auth)')
   }),
@@ -173,20 +370,32 @@ export const HeimdizzyConfigSchema = z.object({
   build: BuildConfigSchema.optional(),
   deployments: z.array(z.object({
     name: z.string(),
-    environment: z.enum(['development', 'staging', 'production']),
+    environment: z.enum(['development', 'staging', 'production', 'preview']),
     build: BuildConfigSchema.optional().describe('Override build configuration for this deployment'),
     hooks: HooksSchema.optional().describe('Deployment hooks'),
     storage: S3ConfigSchema,
     deployment: DeploymentSchema,
-    notifications: NotificationSchema.optional()
+    notifications: NotificationSchema.optional(),
+    history: HistoryConfigSchema.default({}).describe('Deployment history ledger')
   }))
 })
 
 export type HeimdizzyConfig = z.infer<typeof HeimdizzyConfigSchema>
 export type S3Config = z.infer<typeof S3ConfigSchema>
+export type UploadEngineConfig = z.infer<typeof UploadEngineConfigSchema>
 export type SqlxConfig = z.infer<typeof SqlxConfigSchema>
 export type BuildConfig = z.infer<typeof BuildConfigSchema>
 export type DeploymentConfig = z.infer<typeof DeploymentSchema>
 export type WebDeploymentConfig = z.infer<typeof WebDeploymentConfigSchema>
+export type WebHeaderRule = z.infer<typeof WebHeaderRuleSchema>
+export type WebRedirectRule = z.infer<typeof WebRedirectRuleSchema>
+export type NpmDeploymentConfig = z.infer<typeof NpmDeploymentConfigSchema>
+export type LambdaDeploymentConfig = z.infer<typeof LambdaDeploymentConfigSchema>
+export type DockerHubDeploymentConfig = z.infer<typeof DockerHubDeploymentConfigSchema>
+export type HistoryConfig = z.infer<typeof HistoryConfigSchema>
 export type Hook = z.infer<typeof HookSchema>
+export type NotificationConfig = z.infer<typeof NotificationSchema>
+export type NotificationTarget = z.infer<typeof NotificationTargetSchema>
+export type NotificationEvent = z.infer<typeof NotificationEventSchema>
+export type NotificationTemplate = z.infer<typeof NotificationTemplateSchema>
 export type Hooks = z.infer<typeof HooksSchema>
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { execSync } from 'child_process'
-import { existsSync } from 'fs'
+import { existsSync, readFileSync, writeFileSync, statSync } from 'fs'
+import { createHash } from 'crypto'
 import { join, dirname } from 'path'
 import { mkdir } from 'fs/promises'
 import chalk from 'chalk'
@@ -11,6 +12,59 @@ export interface BuildResult {
   gitHash: string
   buildId: string
   timestamp: string
+  sha256?: string
+  size?: number
+  platform?: string
+  binaryName?: string
+}
+
+export const BUILD_MANIFEST_FILE = 'heimdizzy-build.json'
+
+/**
+ * Walk up from startDir to the directory containing Cargo.toml
+ */
+export function findServiceRoot(startDir: string = process.cwd()): string | null {
+  let dir = startDir
+  
+  while (dir !== '/') {
+    if (existsSync(join(dir, 'Cargo.toml'))) {
+      return dir
+    }
+    dir = dirname(dir)
+  }
+  
+  return null
+}
+
+export function getBuildManifestPath(startDir: string = process.cwd()): string {
+  return join(findServiceRoot(startDir) || startDir, 'target', BUILD_MANIFEST_FILE)
+}
+
+/**
+ * Load the manifest written by the last build (target/heimdizzy-build.json) and
+ * make sure the artifact it points to is still the one that was built
+ */
+export function readBuildManifest(startDir: string = process.cwd()): BuildResult | null {
+  const manifestPath = getBuildManifestPath(startDir)
+  
+  if (!existsSync(manifestPath)) {
+    return null
+  }
+  
+  const manifest: BuildResult = JSON.parse(readFileSync(manifestPath, 'utf-8'))
+  
+  if (!existsSync(manifest.binaryPath)) {
+    throw new Error(`Build manifest ${manifestPath} points to missing artifact ${manifest.binaryPath}`)
+  }
+  if (manifest.sha256 && hashFile(manifest.binaryPath) !== manifest.sha256) {
+    throw new Error(`Artifact ${manifest.binaryPath} changed since it was built (sha256 mismatch), rebuild it`)
+  }
+  
+  return manifest
+}
+
+function hashFile(filePath: string): string {
+  return createHash('sha256').update(readFileSync(filePath)).digest('hex')
 }
 
 export class BuildService {
@@ -96,12 +150,21 @@ export class BuildService {
       throw new Error(`Build did not produce binary at ${binaryPath}`)
     }
     
-    return {
+    const result: BuildResult = {
       binaryPath,
       gitHash,
       buildId,
-      timestamp
+      timestamp,
+      sha256: hashFile(binaryPath),
+      size: statSync(binaryPath).size,
+      platform: config.platform,
+      binaryName: config.binaryName
     }
+    
+    // Persist the result so --skip-build runs reuse this exact artifact
+    writeFileSync(join(targetPath, BUILD_MANIFEST_FILE), JSON.stringify(result, null, 2))
+    
+    return result
   }
   
   private getGitHash(): string {
@@ -114,16 +177,11 @@ export class BuildService {
   }
   
   private async findServiceRoot(): Promise<string> {
-    let dir = process.cwd()
-    
-    while (dir !== '/') {
-      if (existsSync(join(dir, 'Cargo.toml'))) {
-        return dir
-      }
-      dir = dirname(dir)
+    const serviceRoot = findServiceRoot()
+    if (!serviceRoot) {
+      throw new Error('Could not find service root (no Cargo.toml found)')
     }
-    
-    throw new Error('Could not find service root (no Cargo.toml found)')
+    return serviceRoot
   }
   
   private async buildWithDocker(serviceRoot: string, targetPath: string, config: BuildConfig): Promise<string> {
@@ -4,45 +4,7 @@ import { join } from 'path'
 import { tmpdir } from 'os'
 import { mkdtemp, rm } from 'fs/promises'
 import chalk from 'chalk'
-import { z } from 'zod'
-
-// Container deployment specific configuration
-export const ContainerDeploymentConfigSchema = z.object({
-  registry: z.object({
-    endpoint: z.string().describe('Container registry endpoint (e.g. docker-registry.container-registry.svc.cluster.local:5000)'),
-    repository: z.string().describe('Repository name (e.g. email-service)'),
-    tag: z.string().default('latest').describe('Container image tag'),
-    insecure: z.boolean().default(false).describe('Use insecure registry (for in-cluster registries)')
-  }),
-  kubernetes: z.object({
-    namespace: z.string().describe('Kubernetes namespace (required - no default)'),
-    replicas: z.number().default(2).describe('Number of replicas'),
-    resources: z.object({
-      requests: z.object({
-        memory: z.string().default('256Mi'),
-        cpu: z.string().default('100m')
-      }),
-      limits: z.object({
-        memory: z.string().default('512Mi'),
-        cpu: z.string().default('300m')
-      })
-    }).default({
-      requests: { memory: '256Mi', cpu: '100m' },
-      limits: { memory: '512Mi', cpu: '300m' }
-    }),
-    ports: z.array(z.object({
-      containerPort: z.number(),
-      name: z.string()
-    })).default([{ containerPort: 8080, name: 'http' }]),
-    env: z.array(z.object({
-      name: z.string(),
-      value: z.string()
-    })).optional(),
-    useExistingManifests: z.boolean().default(true).describe('Use existing K8s manifests instead of generating')
-  })
-})
-
-export type ContainerDeploymentConfig = z.infer<typeof ContainerDeploymentConfigSchema>
+import type { ContainerDeploymentConfig } from '../config/schema.js'
 
 export interface ContainerDeploymentResult {
   imageName: string
@@ -55,9 +17,10 @@ export interface ContainerDeploymentResult {
 export class ContainerDeploymentService {
   async deploy(
     service: any,
-    config: any,
+    config: ContainerDeploymentConfig,
     gitHash: string,
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    deploymentConfig?: any
   ): Promise<ContainerDeploymentResult> {
     console.log(chalk.blue(`🐳 Starting container deployment for ${service.name}`))
     
@@ -84,8 +47,11 @@ export class ContainerDeploymentService {
     try {
       // 1. Build container image
       console.log(chalk.gray('Building container image...'))
-      // This service needs to receive deployment config too
-      const dockerfile = 'Dockerfile' // This is a limitation - we'd need to pass deploymentConfig here
+      const dockerfile = deploymentConfig?.build?.dockerfile || 'Dockerfile'
+      
+      if (!existsSync(dockerfile)) {
+        throw new Error(`Dockerfile not found: ${dockerfile}`)
+      }
       
       execSync(`docker build -f ${dockerfile} -t ${service.name}:${imageTag} .`, {
         stdio: 'inherit'
@@ -110,13 +76,13 @@ export class ContainerDeploymentService {
         console.log(chalk.yellow('Detected in-cluster registry, using NodePort for push...'))
         
         // Get the NodePort
-        const registryNamespace = config.registry?.namespace || 'container-registry'
+        const registryNamespace = registry.namespace
         const nodePortOutput = execSync(
           `kubectl get svc -n ${registryNamespace} docker-registry-nodeport -o jsonpath='{.spec.ports[0].nodePort}'`,
           { encoding: 'utf-8' }
         ).trim()
         
-        const nodePort = parseInt(nodePortOutput) || config.registry?.nodePort || 30500
+        const nodePort = parseInt(nodePortOutput) || registry.nodePort || 30500
         const nodePortRegistry = `localhost:${nodePort}`
         const nodePortImageName = `${nodePortRegistry}/${registry.repository}:${imageTag}`
         const nodePortLatestName = `${nodePortRegistry}/${registry.repository}:latest`
@@ -209,7 +175,7 @@ export class ContainerDeploymentService {
       console.log(chalk.gray('Waiting for deployment to be ready...'))
       try {
         execSync(
-          `kubectl rollout status deployment/${service.name} -n ${kubernetes.namespace} --timeout=${kubernetes.deploymentTimeout || 300}s`,
+          `kubectl rollout status deployment/${service.name} -n ${kubernetes.namespace} --timeout=${kubernetes.deploymentTimeout}s`,
           { stdio: 'inherit' }
         )
       } catch (error) {
@@ -249,7 +215,7 @@ export class ContainerDeploymentService {
   
   private async generateAndApplyManifests(
     service: any,
-    config: any,
+    config: ContainerDeploymentConfig,
     imageName: string
   ): Promise<void> {
     const { kubernetes } = config
@@ -302,7 +268,7 @@ export class ContainerDeploymentService {
           selector: {
             app: service.name
           },
-          ports: kubernetes.ports.map((p: any) => ({
+          ports: kubernetes.ports.map(p => ({
             name: p.name,
             port: p.containerPort,
             targetPort: p.containerPort
@@ -1,9 +1,18 @@
 import { execSync } from 'child_process'
 import chalk from 'chalk'
+import type { Ora } from 'ora'
 import { WebDeploymentService } from './web-deployment.js'
 import { ServiceDeploymentService, ServiceDeploymentResult } from './service-deployment.js'
-import { HooksService } from './hooks.js'
-import { Hooks } from '../config/schema.js'
+import { ContainerDeploymentService, ContainerDeploymentResult } from './container-deployment.js'
+import { GitOpsContainerDeploymentService, GitOpsContainerDeploymentResult } from './gitops-container-deployment.js'
+import { NpmPublishService, NpmPublishResult } from './npm-publish.js'
+import { DockerHubPublishService, DockerHubPublishResult } from './dockerhub-publish.js'
+import { LambdaDeploymentService, LambdaDeploymentResult } from './lambda-deployment.js'
+import type { UploadResult } from './upload.js'
+import type { BuildResult } from './build.js'
+import { HooksService, type HookContext } from './hooks.js'
+import { ConfigLoader } from '../config/loader.js'
+import type { Hooks, BuildConfig } from '../config/schema.js'
 
 export interface DeploymentResult {
   podCount?: number
@@ -11,36 +20,121 @@ export interface DeploymentResult {
   skipped?: boolean
   deployedFiles?: number
   invalidationId?: string
+  uploadedFiles?: number
+  skippedFiles?: number
+  deletedFiles?: number
+  totalBytes?: number
+  compressionSavedBytes?: number
+  release?: string
+  previousRelease?: string
+  previewUrl?: string
   buildTime?: number
   deployTime?: number
   service?: ServiceDeploymentResult
+  container?: ContainerDeploymentResult
+  manifestUpdated?: boolean
+  commitHash?: string
+  prUrl?: string
+  gitops?: GitOpsContainerDeploymentResult
+  npm?: NpmPublishResult
+  dockerhub?: DockerHubPublishResult
+  lambda?: LambdaDeploymentResult
+  build?: BuildResult
 }
 
 export class DeploymentService {
-  private webDeploymentService = new WebDeploymentService()
+  private webDeploymentService: WebDeploymentService
   private serviceDeploymentService = new ServiceDeploymentService()
+  private containerDeploymentService = new ContainerDeploymentService()
+  private gitOpsDeploymentService = new GitOpsContainerDeploymentService()
+  private npmPublishService = new NpmPublishService()
+  private dockerHubPublishService = new DockerHubPublishService()
+  private lambdaDeploymentService = new LambdaDeploymentService()
   private hooksService = new HooksService()
 
+  constructor(spinner?: Ora) {
+    // Web uploads report their progress on the caller's spinner
+    this.webDeploymentService = new WebDeploymentService(spinner)
+  }
+
   async deploy(
     service: any,
     deploymentConfig: any,
     dryRun: boolean = false,
     gitHash?: string,
-    fullConfig?: any
+    fullConfig?: any,
+    uploadResult?: UploadResult,
+    buildResult?: BuildResult | null,
+    previewBranch?: string
+  ): Promise<DeploymentResult> {
+    const result = await this.deployByType(service, deploymentConfig, dryRun, gitHash, fullConfig, uploadResult, previewBranch, buildResult)
+    return buildResult ? { ...result, build: buildResult } : result
+  }
+
+  private async deployByType(
+    service: any,
+    deploymentConfig: any,
+    dryRun: boolean,
+    gitHash?: string,
+    fullConfig?: any,
+    uploadResult?: UploadResult,
+    previewBranch?: string,
+    buildResult?: BuildResult | null
   ): Promise<DeploymentResult> {
     console.log(chalk.gray(`🔍 Deployment config keys: ${Object.keys(deploymentConfig).join(', ')}`))
     const { deployment, storage, hooks } = deploymentConfig
+    
+    // Image builds take the Dockerfile from the same build config as the build step
+    if (fullConfig) {
+      deploymentConfig = { ...deploymentConfig, build: new ConfigLoader().getBuildConfig(fullConfig, deploymentConfig.environment) }
+    }
     console.log(chalk.gray(`🔍 Hooks object: ${hooks ? 'defined' : 'undefined'}`))
     if (hooks) {
       console.log(chalk.gray(`🔍 Hooks properties: ${Object.keys(hooks).join(', ')}`))
     }
     
+    // Every phase adds what it knows by then, e.g. the image after the build
+    const hookContext: HookContext = {
+      service: service.name,
+      product: service.product,
+      environment: deploymentConfig.environment,
+      gitHash,
+      artifactPath: uploadResult?.artifactPath,
+      bucket: storage?.bucket
+    }
+    
     if (deployment.type === 'web') {
-      return this.deployWeb(service, storage, deployment, hooks, dryRun)
+      return this.deployWeb(service, storage, deployment, hooks, gitHash || 'latest', dryRun, hookContext, previewBranch)
+    }
+    
+    if (previewBranch) {
+      throw new Error(`Preview deployments are only supported for web deployments, not ${deployment.type}`)
+    }
+    
+    // GitOps mode hands the rollout to Flux for both service and container deploys
+    const containerConfig = deployment.type === 'service' ? deployment.service?.container : deployment.container
+    if ((deployment.type === 'service' || deployment.type === 'container') && containerConfig?.gitops) {
+      return this.deployGitOps(service, containerConfig, gitHash || 'latest', dryRun, deploymentConfig, hookContext, fullConfig)
     }
     
     if (deployment.type === 'service') {
-      return this.deployService(service, deployment, gitHash || 'latest', dryRun, deploymentConfig, fullConfig)
+      return this.deployService(service, deployment, gitHash || 'latest', dryRun, deploymentConfig, hookContext, fullConfig)
+    }
+    
+    if (deployment.type === 'container') {
+      return this.deployContainer(service, deployment, gitHash || 'latest', dryRun, deploymentConfig, hookContext)
+    }
+    
+    if (deployment.type === 'npm') {
+      return this.deployNpm(service, deployment, hooks, dryRun, hookContext)
+    }
+    
+    if (deployment.type === 'lambda-zip') {
+      return this.deployLambda(service, storage, deployment, hooks, dryRun, hookContext, deploymentConfig.build, uploadResult, buildResult)
+    }
+    
+    if (deployment.type === 'dockerhub') {
+      return this.deployDockerHub(service, deployment, gitHash || 'latest', hooks, dryRun, hookContext)
     }
     
     console.log(chalk.yellow(`Unknown deployment type: ${deployment.type}`))
@@ -53,6 +147,7 @@ export class DeploymentService {
     gitHash: string,
     dryRun: boolean,
     deploymentConfig: any,
+    hookContext: HookContext,
     fullConfig?: any
   ): Promise<DeploymentResult> {
     console.log(chalk.blue(`🚀 Starting service deployment for ${service.name}`))
@@ -64,7 +159,7 @@ export class DeploymentService {
     // Execute pre-build hooks if configured
     const hooks = deploymentConfig.hooks
     if (hooks?.pre_build) {
-      await this.hooksService.executeHooks(hooks.pre_build, 'pre-build')
+      await this.hooksService.executeHooks(hooks.pre_build, 'pre_build', hookContext)
     }
     
     // Run the integrated service deployment
@@ -79,7 +174,11 @@ export class DeploymentService {
     
     // Execute post-build hooks if configured
     if (hooks?.post_build) {
-      await this.hooksService.executeHooks(hooks.post_build, 'post-build')
+      await this.hooksService.executeHooks(hooks.post_build, 'post_build', {
+        ...hookContext,
+        imageName: serviceResult.imageName,
+        imageTag: serviceResult.imageTag
+      })
     }
     
     return {
@@ -88,12 +187,215 @@ export class DeploymentService {
     }
   }
 
+  private async deployContainer(
+    service: any,
+    deployment: any,
+    gitHash: string,
+    dryRun: boolean,
+    deploymentConfig: any,
+    hookContext: HookContext
+  ): Promise<DeploymentResult> {
+    console.log(chalk.blue(`🐳 Starting container deployment for ${service.name}`))
+    
+    if (!deployment.container) {
+      throw new Error('Container deployment configuration is required for container deploy type')
+    }
+    
+    const hooks: Hooks | undefined = deploymentConfig.hooks
+    if (hooks?.pre_build) {
+      await this.hooksService.executeHooks(hooks.pre_build, 'pre_build', hookContext)
+    }
+    if (hooks?.pre_deploy) {
+      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', hookContext)
+    }
+    
+    const containerResult = await this.containerDeploymentService.deploy(
+      service,
+      deployment.container,
+      gitHash,
+      dryRun,
+      deploymentConfig
+    )
+    
+    const result: DeploymentResult = {
+      podCount: containerResult.podCount,
+      container: containerResult
+    }
+    const imageContext = { ...hookContext, imageName: containerResult.imageName, imageTag: containerResult.imageTag }
+    
+    if (hooks?.post_build) {
+      await this.hooksService.executeHooks(hooks.post_build, 'post_build', imageContext)
+    }
+    if (hooks?.post_deploy) {
+      await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', { ...imageContext, result })
+    }
+    
+    return result
+  }
+
+  private async deployGitOps(
+    service: any,
+    containerConfig: any,
+    gitHash: string,
+    dryRun: boolean,
+    deploymentConfig: any,
+    hookContext: HookContext,
+    fullConfig?: any
+  ): Promise<DeploymentResult> {
+    console.log(chalk.blue(`🔄 Starting GitOps deployment for ${service.name}`))
+    
+    // Pre-build hooks run here; the GitOps service runs the remaining phases itself
+    const hooks: Hooks | undefined = deploymentConfig.hooks
+    if (hooks?.pre_build) {
+      await this.hooksService.executeHooks(hooks.pre_build, 'pre_build', hookContext)
+    }
+    
+    const gitOpsResult = await this.gitOpsDeploymentService.deploy(
+      service,
+      containerConfig,
+      gitHash,
+      dryRun,
+      hooks,
+      deploymentConfig,
+      fullConfig,
+      hookContext
+    )
+    
+    return {
+      podCount: gitOpsResult.rollout?.podCount,
+      manifestUpdated: gitOpsResult.manifestUpdated,
+      commitHash: gitOpsResult.commitHash,
+      prUrl: gitOpsResult.prUrl,
+      gitops: gitOpsResult
+    }
+  }
+
+  private async deployNpm(
+    service: any,
+    deployment: any,
+    hooks: Hooks | undefined,
+    dryRun: boolean,
+    hookContext: HookContext
+  ): Promise<DeploymentResult> {
+    console.log(chalk.blue(`📦 Starting npm publish for ${service.name}`))
+    
+    if (!deployment.npm) {
+      throw new Error('NPM deployment configuration is required for npm deploy type')
+    }
+    
+    if (hooks?.pre_deploy) {
+      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', hookContext)
+    }
+    
+    const npmResult = await this.npmPublishService.publish(deployment.npm, dryRun)
+    const result: DeploymentResult = {
+      skipped: !npmResult.published,
+      npm: npmResult
+    }
+    
+    if (hooks?.post_deploy) {
+      await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', { ...hookContext, result })
+    }
+    
+    return result
+  }
+
+  private async deployDockerHub(
+    service: any,
+    deployment: any,
+    gitHash: string,
+    hooks: Hooks | undefined,
+    dryRun: boolean,
+    hookContext: HookContext
+  ): Promise<DeploymentResult> {
+    console.log(chalk.blue(`🐳 Starting Docker Hub publish for ${service.name}`))
+    
+    if (!deployment.dockerhub) {
+      throw new Error('Docker Hub deployment configuration is required for dockerhub deploy type')
+    }
+    
+    if (hooks?.pre_build) {
+      await this.hooksService.executeHooks(hooks.pre_build, 'pre_build', hookContext)
+    }
+    if (hooks?.pre_deploy) {
+      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', hookContext)
+    }
+    
+    const dockerHubResult = await this.dockerHubPublishService.publish(service, deployment.dockerhub, gitHash, dryRun)
+    const result: DeploymentResult = {
+      dockerhub: dockerHubResult
+    }
+    const imageContext = { ...hookContext, imageName: dockerHubResult.repository, imageTag: dockerHubResult.tags[0] }
+    
+    if (hooks?.post_build) {
+      await this.hooksService.executeHooks(hooks.post_build, 'post_build', imageContext)
+    }
+    if (hooks?.post_deploy) {
+      await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', { ...imageContext, result })
+    }
+    
+    return result
+  }
+
+  private async deployLambda(
+    service: any,
+    storage: any,
+    deployment: any,
+    hooks: Hooks | undefined,
+    dryRun: boolean,
+    hookContext: HookContext,
+    buildConfig?: BuildConfig,
+    uploadResult?: UploadResult,
+    buildResult?: BuildResult | null
+  ): Promise<DeploymentResult> {
+    console.log(chalk.blue(`λ Starting Lambda deployment for ${service.name}`))
+    
+    if (!deployment.lambda) {
+      throw new Error('Lambda deployment configuration is required for lambda-zip deploy type')
+    }
+    
+    // Without an upload in this run (--skip-upload), deploy the last uploaded artifact
+    const artifact = uploadResult?.key
+      ? { bucket: storage.bucket, key: uploadResult.key, localPath: uploadResult.localPath }
+      : { bucket: storage.bucket, key: `${service.name}/lambda-latest.zip` }
+    // The platform the zip was built for, else what this deployment's build config would build
+    const platform = buildResult?.platform ?? buildConfig?.platform
+    const architecture = platform === 'arm64' ? 'arm64' : 'x86_64'
+    const lambdaContext = { ...hookContext, artifactPath: `s3://${artifact.bucket}/${artifact.key}` }
+    
+    if (hooks?.pre_deploy) {
+      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', lambdaContext)
+    }
+    
+    const lambdaResult = await this.lambdaDeploymentService.deploy(
+      service,
+      storage,
+      deployment.lambda,
+      artifact,
+      architecture,
+      dryRun
+    )
+    
+    const result: DeploymentResult = {
+      lambda: lambdaResult
+    }
+    
+    if (hooks?.post_deploy) {
+      await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', { ...lambdaContext, result })
+    }
+    
+    return result
+  }
+
   private async deployWeb(
     service: any,
     storage: any,
     deployment: any,
     hooks: Hooks | undefined,
-    dryRun: boolean
+    gitHash: string,
+    dryRun: boolean,
+    hookContext: HookContext,
+    previewBranch?: string
   ): Promise<DeploymentResult> {
     console.log(chalk.blue(`🌐 Starting web deployment for ${service.name}`))
     
@@ -109,26 +411,44 @@ export class DeploymentService {
     
     // Execute pre-deployment hooks
     if (hooks?.pre_deploy) {
-      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre-deployment')
+      await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', hookContext)
     }
     
-    const webResult = await this.webDeploymentService.deploy(
-      {
-        name: service.name,
-        product: service.product
-      },
-      storage,
-      deployment.web,
-      dryRun
-    )
+    const serviceInfo = {
+      name: service.name,
+      product: service.product
+    }
+    const webResult = previewBranch
+      ? await this.webDeploymentService.deployPreview(serviceInfo, storage, deployment.web, previewBranch, gitHash, dryRun)
+      : await this.webDeploymentService.deploy(serviceInfo, storage, deployment.web, gitHash, dryRun)
     
     console.log(chalk.gray(`📋 Web deployment completed, preparing to run post-deployment hooks...`))
     
+    const result: DeploymentResult = {
+      deployedFiles: webResult.deployedFiles,
+      invalidationId: webResult.invalidationId,
+      buildTime: webResult.buildTime,
+      deployTime: webResult.deployTime,
+      uploadedFiles: webResult.uploadedFiles,
+      skippedFiles: webResult.skippedFiles,
+      deletedFiles: webResult.deletedFiles,
+      totalBytes: webResult.totalBytes,
+      compressionSavedBytes: webResult.compressionSavedBytes,
+      release: webResult.release,
+      previousRelease: webResult.previousRelease,
+      previewUrl: webResult.previewUrl
+    }
+    
     // Execute post-deployment hooks
     try {
       if (hooks?.post_deploy) {
         console.log(chalk.gray(`📋 Found ${hooks.post_deploy.length} post-deployment hooks to execute`))
-        await this.hooksService.executeHooks(hooks.post_deploy, 'post-deployment')
+        await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', {
+          ...hookContext,
+          deployedFiles: webResult.deployedFiles,
+          invalidationId: webResult.invalidationId,
+          result
+        })
       } else {
         console.log(chalk.gray(`📋 No post-deployment hooks configured`))
       }
@@ -139,11 +459,6 @@ export class DeploymentService {
       throw error
     }
     
-    return {
-      deployedFiles: webResult.deployedFiles,
-      invalidationId: webResult.invalidationId,
-      buildTime: webResult.buildTime,
-      deployTime: webResult.deployTime
-    }
+    return result
   }
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { execSync } from 'child_process'
+import { readFileSync, existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { mkdtemp, rm } from 'fs/promises'
+import chalk from 'chalk'
+import type { DockerHubDeploymentConfig } from '../config/schema.js'
+import { RustBuildService } from './rust-build.js'
+
+export interface DockerHubPublishResult {
+  repository: string
+  tags: string[]
+  platforms: string[]
+  digest?: string
+}
+
+export class DockerHubPublishService {
+  private rustBuildService = new RustBuildService()
+
+  async publish(
+    service: any,
+    dockerhubConfig: DockerHubDeploymentConfig,
+    gitHash: string,
+    dryRun: boolean = false
+  ): Promise<DockerHubPublishResult> {
+    const { repository, dockerfile, platform: platforms } = dockerhubConfig
+    const tags = [...new Set([dockerhubConfig.tag, ...dockerhubConfig.tags])]
+    const imageRefs = tags.map(tag => `${repository}:${tag}`)
+    const buildArgs = {
+      GIT_SHA: gitHash,
+      BUILD_TIMESTAMP: new Date().toISOString(),
+      ...dockerhubConfig.buildArgs
+    }
+
+    console.log(chalk.blue(`🐳 Publishing ${service.name} to Docker Hub as ${repository}`))
+
+    if (dryRun) {
+      console.log(chalk.yellow('[DRY RUN] Would publish image:'))
+      console.log(`  Repository: ${repository}`)
+      console.log(`  Tags: ${tags.join(', ')}`)
+      console.log(`  Platforms: ${platforms.join(', ')}`)
+      console.log(`  Dockerfile: ${dockerfile}`)
+      return {
+        repository,
+        tags,
+        platforms
+      }
+    }
+
+    if (!existsSync(dockerfile)) {
+      throw new Error(`Dockerfile not found: ${dockerfile}`)
+    }
+
+    // 1. Log in to Docker Hub
+    const username = dockerhubConfig.username || process.env.DOCKER_USERNAME
+    const password = dockerhubConfig.password || process.env.DOCKER_PASSWORD
+    if (username && password) {
+      console.log(chalk.gray(`🔐 Logging into Docker Hub as ${username}`))
+      try {
+        execSync(`docker login -u ${username} --password-stdin`, {
+          input: password,
+          stdio: ['pipe', 'inherit', 'inherit']
+        })
+        console.log(chalk.green('✓ Docker login successful'))
+      } catch (error: any) {
+        throw new Error(`Docker login failed: ${error.message}`)
+      }
+    } else {
+      console.log(chalk.yellow('DOCKER_USERNAME/DOCKER_PASSWORD not set, using existing Docker credentials'))
+    }
+
+    // 2. Build and push every tag in one buildx invocation
+    const workDir = await mkdtemp(join(tmpdir(), 'heimdizzy-buildx-'))
+    const metadataFile = join(workDir, 'metadata.json')
+
+    try {
+      try {
+        await this.rustBuildService.buildMultiPlatformImage({
+          imageRefs,
+          platforms,
+          dockerfile,
+          buildArgs,
+          metadataFile
+        })
+      } catch (error: any) {
+        throw new Error(`Docker Hub publish failed: ${error.message}`)
+      }
+
+      const digest = existsSync(metadataFile)
+        ? JSON.parse(readFileSync(metadataFile, 'utf-8'))['containerimage.digest']
+        : undefined
+
+      console.log(chalk.green(`✓ Published ${imageRefs.length} tag(s) to ${repository}`))
+      if (digest) {
+        console.log(chalk.gray(`  Digest: ${digest}`))
+      }
+
+      return {
+        repository,
+        tags,
+        platforms,
+        digest
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true })
+    }
+  }
+}
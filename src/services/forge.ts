@@ -0,0 +1,110 @@
+import { execSync } from 'child_process'
+import type { ForgeConfig } from '../config/schema.js'
+
+export interface PullRequestOptions {
+  repository: string
+  title: string
+  body: string
+  head: string
+  base: string
+}
+
+export interface PullRequestResult {
+  url: string
+  number: number
+}
+
+export interface ForgeClient {
+  createPullRequest(options: PullRequestOptions): Promise<PullRequestResult>
+}
+
+/**
+ * GitHub REST API client (also works against GitHub Enterprise via apiUrl)
+ */
+export class GitHubForgeClient implements ForgeClient {
+  constructor(private apiUrl: string, private token: string) {}
+
+  async createPullRequest(options: PullRequestOptions): Promise<PullRequestResult> {
+    return postPullRequest(`${this.apiUrl}/repos/${options.repository}/pulls`, {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${this.token}`,
+      'X-GitHub-Api-Version': '2022-11-28'
+    }, options)
+  }
+}
+
+/**
+ * Gitea REST API client (apiUrl is the /api/v1 root of the instance)
+ */
+export class GiteaForgeClient implements ForgeClient {
+  constructor(private apiUrl: string, private token: string) {}
+
+  async createPullRequest(options: PullRequestOptions): Promise<PullRequestResult> {
+    return postPullRequest(`${this.apiUrl}/repos/${options.repository}/pulls`, {
+      'Accept': 'application/json',
+      'Authorization': `token ${this.token}`
+    }, options)
+  }
+}
+
+async function postPullRequest(
+  url: string,
+  headers: Record<string, string>,
+  options: PullRequestOptions
+): Promise<PullRequestResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      title: options.title,
+      body: options.body,
+      head: options.head,
+      base: options.base
+    })
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    throw new Error(`Pull request creation failed (${response.status}): ${text.substring(0, 500)}`)
+  }
+
+  const data = await response.json() as any
+  return {
+    url: data.html_url,
+    number: data.number
+  }
+}
+
+export function createForgeClient(config: ForgeConfig): ForgeClient {
+  if (config.provider === 'gitea') {
+    const token = config.token || process.env.GITEA_TOKEN
+    if (!config.apiUrl) {
+      throw new Error('forge.apiUrl is required for the gitea provider')
+    }
+    if (!token) {
+      throw new Error('Gitea token not configured (set forge.token or GITEA_TOKEN)')
+    }
+    return new GiteaForgeClient(config.apiUrl.replace(/\/+$/, ''), token)
+  }
+
+  const token = config.token || process.env.GITHUB_TOKEN
+  if (!token) {
+    throw new Error('GitHub token not configured (set forge.token or GITHUB_TOKEN)')
+  }
+  return new GitHubForgeClient((config.apiUrl || 'https://api.github.com').replace(/\/+$/, ''), token)
+}
+
+/**
+ * Derive "owner/repo" from the origin remote of the repository at cwd
+ */
+export function resolveRepositorySlug(cwd: string): string {
+  const remoteUrl = execSync('git remote get-url origin', { cwd, encoding: 'utf-8', stdio: 'pipe' }).trim()
+  const match = remoteUrl.match(/[:/]([^/:]+\/[^/]+?)(?:\.git)?\/?$/)
+  if (!match) {
+    throw new Error(`Could not determine repository from remote URL: ${remoteUrl}`)
+  }
+  return match[1]
+}
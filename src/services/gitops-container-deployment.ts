@@ -1,17 +1,37 @@
 import { execSync } from 'child_process'
-import { readFileSync, writeFileSync, existsSync } from 'fs'
-import { join, dirname } from 'path'
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs'
+import { join, dirname, isAbsolute } from 'path'
 import chalk from 'chalk'
 import * as yaml from 'js-yaml'
-import { HooksService } from './hooks.js'
-import { Hooks } from '../config/schema.js'
+import { HooksService, type HookContext } from './hooks.js'
+import { createForgeClient, resolveRepositorySlug, type ForgeClient } from './forge.js'
+import { Hooks, ContainerDeploymentConfig } from '../config/schema.js'
+import type { DeploymentResult } from './deployment.js'
 
 export interface GitOpsContainerDeploymentResult {
   imageName: string
   imageTag: string
+  namespace: string
   manifestUpdated: boolean
-  commitHash: string
+  // The manifest commit, when one was made
+  commitHash?: string
   prCreated: boolean
+  prUrl?: string
+  branch?: string
+  rollout?: GitOpsRolloutStatus
+}
+
+interface ManifestUpdateResult {
+  manifestUpdated: boolean
+  commitHash?: string
+  prUrl?: string
+  branch?: string
+}
+
+export interface GitOpsRolloutStatus {
+  appliedRevision: string
+  podCount: number
+  duration: number
 }
 
 export class GitOpsContainerDeploymentService {
@@ -19,12 +39,13 @@ export class GitOpsContainerDeploymentService {
 
   async deploy(
     service: any,
-    config: any,
+    config: ContainerDeploymentConfig,
     gitHash: string,
     dryRun: boolean = false,
     hooks?: Hooks,
     deploymentConfig?: any,
-    fullConfig?: any
+    fullConfig?: any,
+    hookContext?: HookContext
   ): Promise<GitOpsContainerDeploymentResult> {
     console.log(chalk.blue(`🚀 GitOps container deployment for ${service.name}`))
     
@@ -32,25 +53,38 @@ export class GitOpsContainerDeploymentService {
     const imageTag = `${gitHash}-${Date.now()}`
     const fullImageName = `${registry.endpoint}/${registry.repository}:${imageTag}`
     const latestImageName = `${registry.endpoint}/${registry.repository}:latest`
+    const usePullRequest = this.requiresPullRequest(config, deploymentConfig?.environment)
+    const imageContext: HookContext = {
+      ...(hookContext ?? { service: service.name, product: service.product, environment: deploymentConfig?.environment }),
+      gitHash,
+      imageName: fullImageName,
+      imageTag
+    }
     
     if (dryRun) {
       console.log(chalk.yellow('[DRY RUN] Would deploy container:'))
       console.log(`  Image: ${fullImageName}`)
       console.log(`  Registry: ${registry.endpoint}`)
       console.log(`  Namespace: ${kubernetes.namespace}`)
+      console.log(`  Kustomization: ${this.resolveKustomizationPath(service, kubernetes, fullConfig)}`)
+      console.log(`  Flux namespace: ${kubernetes.fluxNamespace}`)
+      console.log(`  Update mode: ${usePullRequest ? `pull request against ${config.gitopsUpdate.baseBranch}` : `push to ${config.gitopsUpdate.baseBranch}`}`)
       return {
         imageName: fullImageName,
         imageTag: imageTag,
+        namespace: kubernetes.namespace,
         manifestUpdated: false,
-        commitHash: gitHash,
         prCreated: false
       }
     }
     
     try {
+      // Fail fast on missing forge credentials before anything is built or pushed
+      const forgeClient = usePullRequest ? createForgeClient(config.gitopsUpdate.forge) : null
+      
       // Execute pre-deploy hooks
       if (hooks?.pre_deploy) {
-        await this.hooksService.executeHooks(hooks.pre_deploy, 'pre-deploy')
+        await this.hooksService.executeHooks(hooks.pre_deploy, 'pre_deploy', imageContext)
       }
 
       // 1. Build container image (pre-build hooks already executed at deployment level)
@@ -70,7 +104,7 @@ export class GitOpsContainerDeploymentService {
 
       // Execute post-build hooks
       if (hooks?.post_build) {
-        await this.hooksService.executeHooks(hooks.post_build, 'post-build')
+        await this.hooksService.executeHooks(hooks.post_build, 'post_build', imageContext)
       }
       
       // 2. Tag for registry
@@ -133,153 +167,472 @@ export class GitOpsContainerDeploymentService {
         })
       }
       
-      // 4. Update kustomization.yaml with new image tag
-      console.log(chalk.gray('Updating kustomization.yaml with new image tag...'))
-      
-      // Find the kustomization.yaml file
-      let possiblePaths: string[] = []
+      // 4-5. Point the kustomization at the new tag and get the change to the base branch
+      const commitMessage = `chore(k8s): update ${service.name} image to ${imageTag}`
+      const { manifestUpdated, commitHash, prUrl, branch } = await this.updateManifest(
+        service,
+        config,
+        imageTag,
+        gitHash,
+        commitMessage,
+        forgeClient,
+        deploymentConfig?.environment,
+        fullConfig
+      )
       
-      // If custom gitOpsPath is provided, use it
-      if (kubernetes.gitOpsPath) {
-        const customPath = kubernetes.gitOpsPath.endsWith('/kustomization.yaml') 
-          ? kubernetes.gitOpsPath 
-          : join(kubernetes.gitOpsPath, 'kustomization.yaml')
-        const projectRoot = fullConfig?.global?.projectRoot || process.cwd()
-        possiblePaths = [
-          join(projectRoot, customPath),
-          customPath
-        ]
+      // 6. Wait for Flux to roll out the commit, or point at how to monitor it
+      let rollout: GitOpsRolloutStatus | undefined
+      if (config.gitopsUpdate.waitForRollout && commitHash && !prUrl) {
+        rollout = await this.waitForRollout(service, config, commitHash, imageTag, this.resolveKustomizationPath(service, kubernetes, fullConfig))
       } else {
-        // Default paths
-        const projectRoot = fullConfig?.global?.projectRoot || process.cwd()
-        const gitOpsBasePath = deploymentConfig?.global?.gitOpsBasePath || 'k8s/clusters/main'
-        possiblePaths = [
-          `${projectRoot}/${gitOpsBasePath}/infrastructure/${kubernetes.namespace}/services/${service.name}/kustomization.yaml`,
-          `${gitOpsBasePath}/infrastructure/${kubernetes.namespace}/services/${service.name}/kustomization.yaml`,
-        ]
+        console.log(chalk.gray('\nTo monitor the deployment:'))
+        console.log(chalk.gray(`  kubectl -n ${kubernetes.namespace} get pods -l app=${service.name} -w`))
+        console.log(chalk.gray(`  flux logs -n ${kubernetes.fluxNamespace} -f`))
       }
       
-      let kustomizationPath: string | null = null
-      for (const path of possiblePaths) {
-        const fullPath = path.startsWith('/') ? path : join(process.cwd(), '../../..', path)
-        if (existsSync(fullPath)) {
-          kustomizationPath = fullPath
-          break
-        }
+      const result: GitOpsContainerDeploymentResult = {
+        imageName: fullImageName,
+        imageTag: imageTag,
+        namespace: kubernetes.namespace,
+        manifestUpdated,
+        commitHash,
+        prCreated: prUrl !== undefined,
+        prUrl,
+        branch,
+        rollout
       }
       
-      if (!kustomizationPath) {
-        // Create kustomization.yaml if it doesn't exist
-        let serviceDir: string
-        if (kubernetes.gitOpsPath) {
-          const customDir = kubernetes.gitOpsPath.endsWith('/kustomization.yaml') 
-            ? dirname(kubernetes.gitOpsPath)
-            : kubernetes.gitOpsPath
-          const projectRoot = fullConfig?.global?.projectRoot || process.cwd()
-          serviceDir = join(projectRoot, customDir)
-        } else {
-          const projectRoot = fullConfig?.global?.projectRoot || process.cwd()
-          const gitOpsBasePath = fullConfig?.global?.gitOpsBasePath || 'k8s/clusters/main'
-          serviceDir = `${projectRoot}/${gitOpsBasePath}/infrastructure/${kubernetes.namespace}/services/${service.name}`
-        }
-        kustomizationPath = join(serviceDir, 'kustomization.yaml')
-        
-        const kustomization = {
-          apiVersion: 'kustomize.config.k8s.io/v1beta1',
-          kind: 'Kustomization',
-          namespace: kubernetes.namespace,
-          resources: [
-            'email-service.yaml',
-            'email-configmap.yaml',
-            'email-hpa.yaml',
-            'email-network-policy.yaml'
-          ],
-          images: [{
-            name: `${registry.endpoint}/${registry.repository}`,
-            newTag: imageTag
-          }]
-        }
-        
-        writeFileSync(kustomizationPath, yaml.dump(kustomization, { lineWidth: -1 }))
-        console.log(chalk.green(`✓ Created kustomization.yaml at ${kustomizationPath}`))
-      } else {
-        // Update existing kustomization.yaml
-        const kustomizationContent = readFileSync(kustomizationPath, 'utf-8')
-        const kustomization = yaml.load(kustomizationContent) as any
-        
-        if (!kustomization.images) {
-          kustomization.images = []
-        }
-        
-        // Find and update the image entry
-        const imageEntry = kustomization.images.find((img: any) => 
-          img.name === `${registry.endpoint}/${registry.repository}` ||
-          img.name === registry.repository
-        )
-        
-        if (imageEntry) {
-          imageEntry.newTag = imageTag
-        } else {
-          kustomization.images.push({
-            name: `${registry.endpoint}/${registry.repository}`,
-            newTag: imageTag
-          })
+      // Execute post-deploy hooks
+      if (hooks?.post_deploy) {
+        // Shaped like the DeploymentResult the deployment service returns for GitOps deploys
+        const deploymentResult: DeploymentResult = {
+          podCount: rollout?.podCount,
+          manifestUpdated,
+          commitHash,
+          prUrl,
+          gitops: result
         }
-        
-        writeFileSync(kustomizationPath, yaml.dump(kustomization, { lineWidth: -1 }))
-        console.log(chalk.green(`✓ Updated kustomization.yaml with new tag: ${imageTag}`))
+        await this.hooksService.executeHooks(hooks.post_deploy, 'post_deploy', { ...imageContext, result: deploymentResult })
+      }
+
+      // Clean up local images
+      console.log(chalk.gray('\nCleaning up local images...'))
+      try {
+        execSync(`docker rmi ${service.name}:${imageTag}`, { stdio: 'pipe' })
+      } catch (error) {
+        // Ignore cleanup errors
       }
       
-      // 5. Commit and push changes
-      console.log(chalk.gray('Committing manifest changes...'))
+      return result
       
-      const kustomizationDir = dirname(kustomizationPath)
-      const commitMessage = `chore(k8s): update ${service.name} image to ${imageTag}`
+    } catch (error: any) {
+      throw new Error(`GitOps container deployment failed: ${error.message}`)
+    }
+  }
+  
+  /**
+   * Point the kustomization back at an image tag pushed by an earlier deploy
+   */
+  async rollback(
+    service: any,
+    config: ContainerDeploymentConfig,
+    imageTag: string,
+    gitHash: string,
+    environment?: string,
+    fullConfig?: any,
+    dryRun: boolean = false
+  ): Promise<GitOpsContainerDeploymentResult> {
+    const { registry, kubernetes } = config
+    const imageName = `${registry.endpoint}/${registry.repository}:${imageTag}`
+    const usePullRequest = this.requiresPullRequest(config, environment)
+    
+    if (dryRun) {
+      console.log(chalk.yellow('[DRY RUN] Would roll back GitOps manifest:'))
+      console.log(`  Image: ${imageName}`)
+      console.log(`  Kustomization: ${this.resolveKustomizationPath(service, kubernetes, fullConfig)}`)
+      console.log(`  Update mode: ${usePullRequest ? `pull request against ${config.gitopsUpdate.baseBranch}` : `push to ${config.gitopsUpdate.baseBranch}`}`)
+      return {
+        imageName,
+        imageTag,
+        namespace: kubernetes.namespace,
+        manifestUpdated: false,
+        prCreated: false
+      }
+    }
+    
+    const forgeClient = usePullRequest ? createForgeClient(config.gitopsUpdate.forge) : null
+    const { manifestUpdated, commitHash, prUrl, branch } = await this.updateManifest(
+      service,
+      config,
+      imageTag,
+      gitHash,
+      `chore(k8s): roll back ${service.name} image to ${imageTag}`,
+      forgeClient,
+      environment,
+      fullConfig
+    )
+    
+    let rollout: GitOpsRolloutStatus | undefined
+    if (config.gitopsUpdate.waitForRollout && commitHash && !prUrl) {
+      rollout = await this.waitForRollout(service, config, commitHash, imageTag, this.resolveKustomizationPath(service, kubernetes, fullConfig))
+    }
+    
+    return {
+      imageName,
+      imageTag,
+      namespace: kubernetes.namespace,
+      manifestUpdated,
+      commitHash,
+      prCreated: prUrl !== undefined,
+      prUrl,
+      branch,
+      rollout
+    }
+  }
+  
+  /**
+   * Rewrite the kustomization images entry to imageTag, then push the commit to the
+   * base branch or, when forgeClient is given, to a review branch with a pull request
+   */
+  private async updateManifest(
+    service: any,
+    config: ContainerDeploymentConfig,
+    imageTag: string,
+    gitHash: string,
+    commitMessage: string,
+    forgeClient: ForgeClient | null,
+    environment?: string,
+    fullConfig?: any
+  ): Promise<ManifestUpdateResult> {
+    const { registry, kubernetes } = config
+    
+    // 4. Update kustomization.yaml with new image tag
+    console.log(chalk.gray('Updating kustomization.yaml with new image tag...'))
+    
+    const kustomizationPath = this.resolveKustomizationPath(service, kubernetes, fullConfig)
+    const imageRef = `${registry.endpoint}/${registry.repository}`
+    const { baseBranch } = config.gitopsUpdate
+    
+    // Pushes go to the base branch, so the commit has to be made on it
+    mkdirSync(dirname(kustomizationPath), { recursive: true })
+    if (!forgeClient) {
+      const checkedOut = execSync('git rev-parse --abbrev-ref HEAD', {
+        cwd: dirname(kustomizationPath),
+        encoding: 'utf-8'
+      }).trim()
+      if (checkedOut !== baseBranch) {
+        throw new Error(`The GitOps repository has ${checkedOut} checked out, check out ${baseBranch} to push manifest changes`)
+      }
+    }
+    
+    if (!existsSync(kustomizationPath)) {
+      // Create kustomization.yaml next to whatever manifests already live in the service directory
+      const serviceDir = dirname(kustomizationPath)
+      
+      const kustomization = {
+        apiVersion: 'kustomize.config.k8s.io/v1beta1',
+        kind: 'Kustomization',
+        namespace: kubernetes.namespace,
+        resources: readdirSync(serviceDir)
+          .filter(file => /\.ya?ml$/.test(file) && file !== 'kustomization.yaml')
+          .sort(),
+        images: [{
+          name: imageRef,
+          newTag: imageTag
+        }]
+      }
+      
+      writeFileSync(kustomizationPath, yaml.dump(kustomization, { lineWidth: -1 }))
+      console.log(chalk.green(`✓ Created kustomization.yaml at ${kustomizationPath}`))
+    } else {
+      // Update existing kustomization.yaml
+      const kustomizationContent = readFileSync(kustomizationPath, 'utf-8')
+      const kustomization = yaml.load(kustomizationContent) as any
+      
+      if (!kustomization.images) {
+        kustomization.images = []
+      }
+      
+      // Find and update the image entry
+      const imageEntry = kustomization.images.find((img: any) => 
+        img.name === imageRef ||
+        img.name === registry.repository
+      )
+      
+      if (imageEntry) {
+        imageEntry.newTag = imageTag
+      } else {
+        kustomization.images.push({
+          name: imageRef,
+          newTag: imageTag
+        })
+      }
+      
+      writeFileSync(kustomizationPath, yaml.dump(kustomization, { lineWidth: -1 }))
+      console.log(chalk.green(`✓ Updated kustomization.yaml with new tag: ${imageTag}`))
+    }
+    
+    // 5. Commit the change and push it to the base branch or a review branch
+    console.log(chalk.gray('Committing manifest changes...'))
+    
+    const kustomizationDir = dirname(kustomizationPath)
+    let manifestUpdated = false
+    let commitHash: string | undefined
+    let prUrl: string | undefined
+    let branch: string | undefined
+    
+    const pendingChanges = execSync(`git status --porcelain -- ${kustomizationPath}`, {
+      cwd: kustomizationDir,
+      encoding: 'utf-8'
+    }).trim()
+    
+    if (!pendingChanges) {
+      console.log(chalk.yellow('No changes to commit (image tag might be the same)'))
+    } else if (forgeClient) {
+      branch = `heimdizzy/${service.name}-${imageTag}`
+      const originalBranch = execSync('git rev-parse --abbrev-ref HEAD', {
+        cwd: kustomizationDir,
+        encoding: 'utf-8'
+      }).trim()
       
       try {
+        execSync(`git checkout -b ${branch}`, { cwd: kustomizationDir, stdio: 'pipe' })
+        // Only the kustomization, whatever else is staged in the repository
         execSync(`git add ${kustomizationPath}`, { cwd: kustomizationDir })
-        execSync(`git commit -m "${commitMessage}"`, { cwd: kustomizationDir })
-        execSync(`git push origin main`, { cwd: kustomizationDir })
-        
-        console.log(chalk.green('✓ Changes committed and pushed to Git'))
-        console.log(chalk.blue('FluxCD will detect and apply the changes automatically'))
+        execSync(`git commit -m "${commitMessage}" -- ${kustomizationPath}`, { cwd: kustomizationDir })
+        commitHash = execSync('git rev-parse HEAD', { cwd: kustomizationDir, encoding: 'utf-8' }).trim()
+        execSync(`git push origin ${branch}`, { cwd: kustomizationDir })
       } catch (error: any) {
-        if (error.message.includes('nothing to commit')) {
-          console.log(chalk.yellow('No changes to commit (image tag might be the same)'))
-        } else {
-          console.warn(chalk.yellow('Failed to commit/push changes. You may need to commit manually.'))
-          console.log(chalk.gray(`Suggested commit: ${commitMessage}`))
-        }
+        throw new Error(`Failed to push manifest branch ${branch}: ${error.message}`)
+      } finally {
+        execSync(`git checkout ${originalBranch}`, { cwd: kustomizationDir, stdio: 'pipe' })
       }
       
-      // 6. Monitor deployment (optional)
-      console.log(chalk.gray('\nTo monitor the deployment:'))
-      console.log(chalk.gray(`  kubectl -n ${kubernetes.namespace} get pods -l app=${service.name} -w`))
-      console.log(chalk.gray(`  flux logs -n ${kubernetes.fluxNamespace} -f`))
+      const repository = config.gitopsUpdate.forge.repository || resolveRepositorySlug(kustomizationDir)
+      const pullRequest = await forgeClient.createPullRequest({
+        repository,
+        title: commitMessage,
+        body: [
+          `Updates \`${registry.endpoint}/${registry.repository}\` to \`${imageTag}\` in namespace \`${kubernetes.namespace}\`.`,
+          '',
+          `Source commit: \`${gitHash}\``,
+          `Environment: ${environment || 'unknown'}`,
+          '',
+          'Opened by heimdizzy. Flux rolls out the change once this is merged.'
+        ].join('\n'),
+        head: branch,
+        base: baseBranch
+      })
+      prUrl = pullRequest.url
+      manifestUpdated = true
       
-      // Execute post-deploy hooks
-      if (hooks?.post_deploy) {
-        await this.hooksService.executeHooks(hooks.post_deploy, 'post-deploy')
+      console.log(chalk.green(`✓ Pull request #${pullRequest.number} opened: ${prUrl}`))
+      console.log(chalk.blue('FluxCD will apply the change after the pull request is merged'))
+    } else {
+      try {
+        // Only the kustomization, whatever else is staged in the repository
+        execSync(`git add ${kustomizationPath}`, { cwd: kustomizationDir })
+        execSync(`git commit -m "${commitMessage}" -- ${kustomizationPath}`, { cwd: kustomizationDir })
+        commitHash = execSync('git rev-parse HEAD', { cwd: kustomizationDir, encoding: 'utf-8' }).trim()
+        execSync(`git push origin ${baseBranch}`, { cwd: kustomizationDir })
+      } catch (error: any) {
+        console.log(chalk.gray(`Suggested commit: ${commitMessage}`))
+        throw new Error(`Failed to commit/push manifest changes: ${error.message}`)
       }
-
-      // Clean up local images
-      console.log(chalk.gray('\nCleaning up local images...'))
+      
+      manifestUpdated = true
+      console.log(chalk.green(`✓ Changes committed and pushed to ${baseBranch} (${commitHash.substring(0, 8)})`))
+      console.log(chalk.blue('FluxCD will detect and apply the changes automatically'))
+      this.requestReconciliation(kubernetes.fluxNamespace)
+    }
+    
+    return { manifestUpdated, commitHash, prUrl, branch }
+  }
+  
+  /**
+   * Locate the kustomization.yaml for a service, preferring kubernetes.gitOpsPath
+   * and falling back to <global.gitOpsBasePath>/infrastructure/<namespace>/services/<name>
+   */
+  private resolveKustomizationPath(
+    service: any,
+    kubernetes: ContainerDeploymentConfig['kubernetes'],
+    fullConfig?: any
+  ): string {
+    const projectRoot = this.getProjectRoot(fullConfig)
+    
+    let manifestDir: string
+    if (kubernetes.gitOpsPath) {
+      manifestDir = kubernetes.gitOpsPath.endsWith('/kustomization.yaml')
+        ? dirname(kubernetes.gitOpsPath)
+        : kubernetes.gitOpsPath
+    } else {
+      const gitOpsBasePath = fullConfig?.global?.gitOpsBasePath || 'k8s/clusters/main'
+      manifestDir = join(gitOpsBasePath, 'infrastructure', kubernetes.namespace, 'services', service.name)
+    }
+    
+    return isAbsolute(manifestDir)
+      ? join(manifestDir, 'kustomization.yaml')
+      : join(projectRoot, manifestDir, 'kustomization.yaml')
+  }
+  
+  /**
+   * Poll the Flux Kustomization until it has applied commitHash, then wait for the
+   * Deployment rollout and for every live pod to run imageTag
+   */
+  private async waitForRollout(
+    service: any,
+    config: ContainerDeploymentConfig,
+    commitHash: string,
+    imageTag: string,
+    kustomizationPath: string
+  ): Promise<GitOpsRolloutStatus> {
+    const { kubernetes, registry } = config
+    const startTime = Date.now()
+    const deadline = startTime + kubernetes.deploymentTimeout * 1000
+    const pollInterval = 5000
+    const kustomization = `kustomization.kustomize.toolkit.fluxcd.io/${kubernetes.fluxKustomization}`
+    
+    console.log(chalk.gray(`⏳ Waiting for Flux to apply ${commitHash.substring(0, 8)} (${kubernetes.fluxNamespace}/${kubernetes.fluxKustomization})...`))
+    
+    let appliedRevision = ''
+    while (true) {
       try {
-        execSync(`docker rmi ${service.name}:${imageTag}`, { stdio: 'pipe' })
-      } catch (error) {
-        // Ignore cleanup errors
+        appliedRevision = execSync(
+          `kubectl get ${kustomization} -n ${kubernetes.fluxNamespace} -o jsonpath='{.status.lastAppliedRevision}'`,
+          { encoding: 'utf-8', stdio: 'pipe' }
+        ).trim()
+      } catch {
+        appliedRevision = ''
       }
       
-      return {
-        imageName: fullImageName,
-        imageTag: imageTag,
-        manifestUpdated: true,
-        commitHash: gitHash,
-        prCreated: false
+      if (appliedRevision && this.revisionContains(appliedRevision, commitHash, dirname(kustomizationPath))) {
+        break
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(`Timed out after ${kubernetes.deploymentTimeout}s waiting for Flux to apply ${commitHash} (last applied: ${appliedRevision || 'unknown'})`)
       }
+      await new Promise(resolve => setTimeout(resolve, pollInterval))
+    }
+    console.log(chalk.green(`✓ Flux applied revision ${appliedRevision}`))
+    
+    const remainingSeconds = () => Math.max(1, Math.floor((deadline - Date.now()) / 1000))
+    
+    console.log(chalk.gray('⏳ Waiting for rollout to complete...'))
+    try {
+      execSync(
+        `kubectl rollout status deployment/${service.name} -n ${kubernetes.namespace} --timeout=${remainingSeconds()}s`,
+        { stdio: 'inherit' }
+      )
+    } catch {
+      throw new Error(`Timed out after ${kubernetes.deploymentTimeout}s waiting for deployment/${service.name} to roll out`)
+    }
+    
+    console.log(chalk.gray(`⏳ Waiting for pods to run ${registry.repository}:${imageTag}...`))
+    while (true) {
+      const { podCount, staleCount } = this.getPodImageStatus(service.name, kubernetes.namespace, registry.repository, imageTag)
       
-    } catch (error: any) {
-      throw new Error(`GitOps container deployment failed: ${error.message}`)
+      if (podCount > 0 && staleCount === 0) {
+        const duration = Date.now() - startTime
+        console.log(chalk.green(`✓ ${podCount} pod(s) running ${imageTag}`))
+        return { appliedRevision, podCount, duration }
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(`Timed out after ${kubernetes.deploymentTimeout}s waiting for pods to run ${imageTag} (${staleCount} pod(s) still on another tag)`)
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval))
+    }
+  }
+  
+  /**
+   * Flux reports revisions as "main@sha1:<sha>" (or "main/<sha>" on older versions).
+   * A later revision that already contains our commit counts as applied too, which is
+   * checked in the GitOps repository at repoDir after fetching the applied commit.
+   */
+  private revisionContains(revision: string, commitHash: string, repoDir: string): boolean {
+    const appliedSha = revision.match(/([0-9a-f]{40})$/)?.[1]
+    if (!appliedSha) {
+      return false
+    }
+    if (appliedSha === commitHash) {
+      return true
+    }
+    
+    try {
+      execSync(`git cat-file -e ${appliedSha}^{commit}`, { cwd: repoDir, stdio: 'pipe' })
+    } catch {
+      // Commits pushed after ours, e.g. by another deploy, aren't in the local clone yet
+      try {
+        execSync(`git fetch origin ${appliedSha}`, { cwd: repoDir, stdio: 'pipe' })
+      } catch {
+        return false
+      }
+    }
+    
+    try {
+      execSync(`git merge-base --is-ancestor ${commitHash} ${appliedSha}`, { cwd: repoDir, stdio: 'pipe' })
+      return true
+    } catch {
+      return false
+    }
+  }
+  
+  private getPodImageStatus(
+    serviceName: string,
+    namespace: string,
+    repository: string,
+    imageTag: string
+  ): { podCount: number, staleCount: number } {
+    let pods: any[] = []
+    try {
+      const output = execSync(`kubectl get pods -n ${namespace} -l app=${serviceName} -o json`, {
+        encoding: 'utf-8',
+        stdio: 'pipe'
+      })
+      pods = JSON.parse(output).items || []
+    } catch {
+      return { podCount: 0, staleCount: 0 }
+    }
+    
+    // Terminating pods from the previous ReplicaSet don't count
+    const livePods = pods.filter(pod => !pod.metadata?.deletionTimestamp)
+    const staleCount = livePods.filter(pod =>
+      (pod.spec?.containers || []).some((container: any) =>
+        container.image?.includes(repository) && !container.image.endsWith(`:${imageTag}`)
+      )
+    ).length
+    
+    return { podCount: livePods.length, staleCount }
+  }
+  
+  private requiresPullRequest(config: ContainerDeploymentConfig, environment?: string): boolean {
+    const { mode, requirePullRequestFor } = config.gitopsUpdate
+    return mode === 'pullRequest' || requirePullRequestFor.some(env => env === environment)
+  }
+  
+  private getProjectRoot(fullConfig?: any): string {
+    if (fullConfig?.global?.projectRoot) {
+      return fullConfig.global.projectRoot
+    }
+    
+    try {
+      return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8', stdio: 'pipe' }).trim()
+    } catch {
+      return process.cwd()
+    }
+  }
+  
+  /**
+   * Ask Flux to fetch the Git source immediately instead of waiting for the next interval
+   */
+  private requestReconciliation(fluxNamespace: string): void {
+    try {
+      execSync(
+        `kubectl annotate gitrepository --all -n ${fluxNamespace} --overwrite reconcile.fluxcd.io/requestedAt="${new Date().toISOString()}"`,
+        { stdio: 'pipe' }
+      )
+      console.log(chalk.gray(`Requested Flux reconciliation in ${fluxNamespace}`))
+    } catch {
+      console.log(chalk.yellow(`Could not request Flux reconciliation in ${fluxNamespace}, waiting for the next sync interval`))
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3'
+import { existsSync, readFileSync, appendFileSync, writeFileSync, mkdirSync, unlinkSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { randomUUID } from 'crypto'
+import { userInfo } from 'os'
+import chalk from 'chalk'
+import type { S3Config, HistoryConfig } from '../config/schema.js'
+import type { DeploymentResult } from './deployment.js'
+import type { RollbackResult } from './rollback.js'
+
+export interface DeploymentRecord {
+  id: string
+  service: string
+  product?: string
+  environment: string
+  deploymentType: string
+  // Rollbacks are recorded as releases of the target gitHash
+  action?: 'deploy' | 'rollback'
+  gitHash: string
+  imageName?: string
+  imageTag?: string
+  artifactPath?: string
+  outcome: 'success' | 'failure'
+  error?: string
+  duration: number
+  operator: string
+  timestamp: string
+  result?: DeploymentResult | RollbackResult
+}
+
+export interface HistoryFilter {
+  service?: string
+  product?: string
+  outcome?: 'success' | 'failure'
+  gitHash?: string
+  limit?: number
+}
+
+// Ledger objects read from the bucket at once
+const READ_CONCURRENCY = 8
+
+export class HistoryService {
+  constructor(
+    private storage: S3Config,
+    private historyConfig: HistoryConfig
+  ) {}
+
+  /**
+   * Current operator, preferring CI identities over the local user
+   */
+  static getOperator(): string {
+    if (process.env.HEIMDIZZY_OPERATOR) return process.env.HEIMDIZZY_OPERATOR
+    if (process.env.GITHUB_ACTOR) return `${process.env.GITHUB_ACTOR} (github-actions)`
+    try {
+      return userInfo().username
+    } catch {
+      return process.env.USER || 'unknown'
+    }
+  }
+
+  static newRecordId(): string {
+    return randomUUID()
+  }
+
+  /**
+   * Append a record to the bucket ledger, falling back to the local file when S3 is unreachable.
+   * Records left in the local file are moved up to the bucket by the next record that reaches it.
+   * Never throws: a missing history entry must not fail a deploy.
+   */
+  async record(record: DeploymentRecord): Promise<void> {
+    if (!this.historyConfig.enabled) {
+      return
+    }
+
+    try {
+      const client = this.createS3Client()
+      const key = await this.putRecord(client, record)
+      console.log(chalk.gray(`📒 Deployment recorded at s3://${this.storage.bucket}/${key}`))
+      await this.uploadLocal(client)
+      return
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Could not write deployment history to S3 (${error.message}), using local ledger`))
+    }
+
+    try {
+      const localPath = resolve(this.historyConfig.localPath)
+      mkdirSync(dirname(localPath), { recursive: true })
+      appendFileSync(localPath, JSON.stringify(record) + '\n')
+      console.log(chalk.gray(`📒 Deployment recorded in ${localPath}`))
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Failed to record deployment history: ${error.message}`))
+    }
+  }
+
+  /**
+   * List records for an environment, newest first. Ledger objects are read newest first, and only
+   * until `limit` records match or `done` is satisfied by the matching records so far.
+   * When the bucket can't be read, only the local ledger is used, never part of the bucket's records.
+   */
+  async list(
+    environment: string,
+    filter: HistoryFilter = {},
+    done?: (records: DeploymentRecord[]) => boolean
+  ): Promise<DeploymentRecord[]> {
+    const local = this.listFromLocal().filter(record => record.environment === environment)
+    const records = new Map(local.map(record => [record.id, record]))
+
+    try {
+      const client = this.createS3Client()
+      const keys = await this.listKeys(client, environment, filter.service)
+
+      for (let i = 0; i < keys.length; i += READ_CONCURRENCY) {
+        const batch = await Promise.all(keys.slice(i, i + READ_CONCURRENCY).map(key => this.readRecord(client, key)))
+        for (const record of batch) {
+          records.set(record.id, record)
+        }
+
+        // Records older than this batch may still be in the bucket, so only newer ones are settled
+        const horizon = batch[batch.length - 1].timestamp
+        const settled = this.applyFilter([...records.values()].filter(record => record.timestamp >= horizon), filter)
+        if ((filter.limit && settled.length >= filter.limit) || done?.(settled)) {
+          return filter.limit ? settled.slice(0, filter.limit) : settled
+        }
+      }
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Could not read deployment history from S3 (${error.message}), using local ledger only`))
+      const filtered = this.applyFilter(local, filter)
+      return filter.limit ? filtered.slice(0, filter.limit) : filtered
+    }
+
+    const filtered = this.applyFilter([...records.values()], filter)
+    return filter.limit ? filtered.slice(0, filter.limit) : filtered
+  }
+
+  private applyFilter(records: DeploymentRecord[], filter: HistoryFilter): DeploymentRecord[] {
+    return records
+      .filter(record => !filter.service || record.service === filter.service)
+      .filter(record => !filter.product || record.product === filter.product)
+      .filter(record => !filter.outcome || record.outcome === filter.outcome)
+      .filter(record => !filter.gitHash || record.gitHash.startsWith(filter.gitHash))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }
+
+  private recordKey(record: DeploymentRecord): string {
+    // ISO timestamps sort lexically, so listing a prefix yields chronological order
+    return `${this.historyConfig.prefix}/${record.environment}/${record.service}/${record.timestamp}-${record.id}.json`
+  }
+
+  /**
+   * Ledger keys for an environment, newest first. Sorted on the file name, which starts with the
+   * timestamp, because the prefix may span several services.
+   */
+  private async listKeys(client: S3Client, environment: string, service?: string): Promise<string[]> {
+    const prefix = `${this.historyConfig.prefix}/${environment}/${service ? `${service}/` : ''}`
+    const keys: string[] = []
+
+    let continuationToken: string | undefined
+    do {
+      const page = await client.send(new ListObjectsV2Command({
+        Bucket: this.storage.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }))
+      for (const object of page.Contents || []) {
+        if (object.Key) keys.push(object.Key)
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+
+    const fileName = (key: string) => key.substring(key.lastIndexOf('/') + 1)
+    return keys.sort((a, b) => fileName(b).localeCompare(fileName(a)))
+  }
+
+  private async putRecord(client: S3Client, record: DeploymentRecord): Promise<string> {
+    const key = this.recordKey(record)
+    await client.send(new PutObjectCommand({
+      Bucket: this.storage.bucket,
+      Key: key,
+      Body: JSON.stringify(record, null, 2),
+      ContentType: 'application/json'
+    }))
+    return key
+  }
+
+  /**
+   * Move records written to the local ledger while the bucket was unreachable up to the bucket,
+   * so other operators see them. Whatever fails to upload stays in the local file.
+   */
+  private async uploadLocal(client: S3Client): Promise<void> {
+    let local: DeploymentRecord[]
+    try {
+      local = this.listFromLocal()
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Could not read local ledger: ${error.message}`))
+      return
+    }
+    if (local.length === 0) {
+      return
+    }
+
+    const left: DeploymentRecord[] = []
+    for (const record of local) {
+      try {
+        await this.putRecord(client, record)
+      } catch {
+        left.push(record)
+      }
+    }
+
+    const localPath = resolve(this.historyConfig.localPath)
+    try {
+      if (left.length > 0) {
+        writeFileSync(localPath, left.map(record => JSON.stringify(record) + '\n').join(''))
+      } else {
+        unlinkSync(localPath)
+      }
+      console.log(chalk.gray(`📒 Moved ${local.length - left.length} record(s) from ${localPath} to s3://${this.storage.bucket}`))
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Could not update local ledger ${localPath}: ${error.message}`))
+    }
+  }
+
+  private async readRecord(client: S3Client, key: string): Promise<DeploymentRecord> {
+    const response = await client.send(new GetObjectCommand({
+      Bucket: this.storage.bucket,
+      Key: key
+    }))
+    const body = await response.Body?.transformToString()
+    if (!body) {
+      throw new Error(`${key} is empty`)
+    }
+    return JSON.parse(body)
+  }
+
+  private listFromLocal(): DeploymentRecord[] {
+    const localPath = resolve(this.historyConfig.localPath)
+    if (!existsSync(localPath)) {
+      return []
+    }
+
+    return readFileSync(localPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line))
+  }
+
+  private createS3Client(): S3Client {
+    const endpoint = this.storage.endpoint || process.env.MINIO_ENDPOINT
+    const accessKeyId = this.storage.accessKeyId || process.env.MINIO_ACCESS_KEY || process.env.AWS_ACCESS_KEY_ID
+    const secretAccessKey = this.storage.secretAccessKey || process.env.MINIO_SECRET_KEY || process.env.AWS_SECRET_ACCESS_KEY
+
+    return new S3Client({
+      region: this.storage.region,
+      endpoint,
+      forcePathStyle: this.storage.forcePathStyle,
+      credentials: endpoint && accessKeyId && secretAccessKey ? {
+        accessKeyId,
+        secretAccessKey
+      } : undefined
+    })
+  }
+}
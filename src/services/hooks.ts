@@ -1,48 +1,108 @@
 import { execSync } from 'child_process'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
 import chalk from 'chalk'
-import { Hook } from '../config/schema.js'
+import { Hook, Hooks } from '../config/schema.js'
+
+export type HookPhase = keyof Hooks
+
+/**
+ * What a hook runs for. Every value that is known is passed to the hook as a HEIMDIZZY_* variable.
+ */
+export interface HookContext {
+  service: string
+  product?: string
+  environment?: string
+  gitHash?: string
+  imageName?: string
+  imageTag?: string
+  artifactPath?: string
+  bucket?: string
+  deployedFiles?: number
+  invalidationId?: string
+  // The DeploymentResult for post_deploy hooks, passed as a JSON file in HEIMDIZZY_RESULT_FILE
+  result?: unknown
+}
+
+const CONTEXT_VARIABLES: Record<Exclude<keyof HookContext, 'result'>, string> = {
+  service: 'HEIMDIZZY_SERVICE',
+  product: 'HEIMDIZZY_PRODUCT',
+  environment: 'HEIMDIZZY_ENVIRONMENT',
+  gitHash: 'HEIMDIZZY_GIT_HASH',
+  imageName: 'HEIMDIZZY_IMAGE_NAME',
+  imageTag: 'HEIMDIZZY_IMAGE_TAG',
+  artifactPath: 'HEIMDIZZY_ARTIFACT_PATH',
+  bucket: 'HEIMDIZZY_BUCKET',
+  deployedFiles: 'HEIMDIZZY_DEPLOYED_FILES',
+  invalidationId: 'HEIMDIZZY_INVALIDATION_ID'
+}
 
 export class HooksService {
   /**
    * Execute a list of hooks
    */
-  async executeHooks(hooks: Hook[], phase: string): Promise<void> {
+  async executeHooks(hooks: Hook[], phase: HookPhase, context?: HookContext): Promise<void> {
     if (!hooks || hooks.length === 0) {
       return
     }
 
-    console.log(chalk.blue(`\n🔧 Executing ${phase} hooks...`))
+    const label = phase.replace('_', '-')
+    console.log(chalk.blue(`\n🔧 Executing ${label} hooks...`))
 
-    for (const hook of hooks) {
-      console.log(chalk.gray(`  Running: ${hook.name}`))
-      if (hook.description) {
-        console.log(chalk.gray(`    ${hook.description}`))
+    const env: NodeJS.ProcessEnv = { ...process.env, HEIMDIZZY_PHASE: phase }
+    for (const [key, variable] of Object.entries(CONTEXT_VARIABLES)) {
+      const value = context?.[key as keyof typeof CONTEXT_VARIABLES]
+      if (value !== undefined && value !== '') {
+        env[variable] = String(value)
       }
+    }
 
-      try {
-        const output = execSync(hook.command, { 
-          encoding: 'utf-8',
-          cwd: process.cwd(),
-          timeout: 300000 // 5 minutes timeout
-        })
-        
-        if (output.trim()) {
-          console.log(chalk.gray(`    Output: ${output.trim()}`))
-        }
-        console.log(chalk.green(`  ✅ ${hook.name} completed`))
-      } catch (error: any) {
-        console.error(chalk.red(`  ❌ ${hook.name} failed:`))
-        console.error(chalk.red(`    ${error.message}`))
-        if (error.stdout) {
-          console.error(chalk.gray(`    stdout: ${error.stdout}`))
+    // The result goes in a file rather than a variable, which would hit the environment size limit
+    let resultDir: string | undefined
+    if (context?.result !== undefined) {
+      resultDir = mkdtempSync(join(tmpdir(), 'heimdizzy-'))
+      env.HEIMDIZZY_RESULT_FILE = join(resultDir, 'deployment-result.json')
+      writeFileSync(env.HEIMDIZZY_RESULT_FILE, JSON.stringify(context.result, null, 2))
+    }
+
+    try {
+      for (const hook of hooks) {
+        console.log(chalk.gray(`  Running: ${hook.name}`))
+        if (hook.description) {
+          console.log(chalk.gray(`    ${hook.description}`))
         }
-        if (error.stderr) {
-          console.error(chalk.gray(`    stderr: ${error.stderr}`))
+
+        try {
+          const output = execSync(hook.command, {
+            encoding: 'utf-8',
+            cwd: process.cwd(),
+            env: { ...env, HEIMDIZZY_HOOK: hook.name },
+            timeout: 300000 // 5 minutes timeout
+          })
+
+          if (output.trim()) {
+            console.log(chalk.gray(`    Output: ${output.trim()}`))
+          }
+          console.log(chalk.green(`  ✅ ${hook.name} completed`))
+        } catch (error: any) {
+          console.error(chalk.red(`  ❌ ${hook.name} failed:`))
+          console.error(chalk.red(`    ${error.message}`))
+          if (error.stdout) {
+            console.error(chalk.gray(`    stdout: ${error.stdout}`))
+          }
+          if (error.stderr) {
+            console.error(chalk.gray(`    stderr: ${error.stderr}`))
+          }
+          throw new Error(`Hook ${hook.name} failed: ${error.message}`)
         }
-        throw new Error(`Hook ${hook.name} failed: ${error.message}`)
+      }
+    } finally {
+      if (resultDir) {
+        rmSync(resultDir, { recursive: true, force: true })
       }
     }
 
-    console.log(chalk.green(`✅ All ${phase} hooks completed successfully\n`))
+    console.log(chalk.green(`✅ All ${label} hooks completed successfully\n`))
   }
-}
\ No newline at end of file
+}
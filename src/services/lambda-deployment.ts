@@ -0,0 +1,187 @@
+import {
+  LambdaClient,
+  UpdateFunctionCodeCommand,
+  UpdateFunctionConfigurationCommand,
+  GetFunctionConfigurationCommand,
+  PublishVersionCommand,
+  GetAliasCommand,
+  CreateAliasCommand,
+  UpdateAliasCommand
+} from '@aws-sdk/client-lambda'
+import { readFileSync } from 'fs'
+import chalk from 'chalk'
+import type { S3Config, LambdaDeploymentConfig } from '../config/schema.js'
+
+export interface LambdaArtifact {
+  bucket: string
+  key: string
+  localPath?: string
+}
+
+export interface LambdaDeploymentResult {
+  functionName: string
+  version: string
+  alias?: string
+  previousVersion?: string
+  codeSha256?: string
+}
+
+export class LambdaDeploymentService {
+  async deploy(
+    service: any,
+    storage: S3Config,
+    lambdaConfig: LambdaDeploymentConfig,
+    artifact: LambdaArtifact,
+    architecture: 'x86_64' | 'arm64',
+    dryRun: boolean = false
+  ): Promise<LambdaDeploymentResult> {
+    const { functionName, alias } = lambdaConfig
+    // Lambda can't read from MinIO, so custom storage endpoints ship the zip bytes directly
+    const uploadZipDirectly = Boolean(storage.endpoint) && Boolean(artifact.localPath)
+
+    if (storage.endpoint && !artifact.localPath) {
+      throw new Error(
+        `Lambda can't fetch s3://${artifact.bucket}/${artifact.key} from custom storage endpoint ${storage.endpoint}; ` +
+        'deploy without --skip-upload so the zip is sent directly'
+      )
+    }
+
+    console.log(chalk.blue(`λ Deploying ${service.name} to Lambda function ${functionName}`))
+
+    if (dryRun) {
+      console.log(chalk.yellow('[DRY RUN] Would deploy Lambda function:'))
+      console.log(`  Function: ${functionName}`)
+      console.log(`  Code: ${uploadZipDirectly ? artifact.localPath : `s3://${artifact.bucket}/${artifact.key}`}`)
+      console.log(`  Architecture: ${architecture}`)
+      if (lambdaConfig.memorySize) console.log(`  Memory: ${lambdaConfig.memorySize} MB`)
+      if (lambdaConfig.timeout) console.log(`  Timeout: ${lambdaConfig.timeout}s`)
+      if (alias) console.log(`  Alias: ${alias}`)
+      return {
+        functionName,
+        version: 'dry-run',
+        alias
+      }
+    }
+
+    const client = this.createLambdaClient(storage, lambdaConfig)
+
+    try {
+      // 1. Update function code
+      console.log(chalk.gray('Updating function code...'))
+      const codeResult = await client.send(new UpdateFunctionCodeCommand({
+        FunctionName: functionName,
+        Architectures: [architecture],
+        ...(uploadZipDirectly
+          ? { ZipFile: readFileSync(artifact.localPath!) }
+          : { S3Bucket: artifact.bucket, S3Key: artifact.key })
+      }))
+      await this.waitForUpdate(client, functionName)
+      console.log(chalk.green(`✓ Function code updated (${codeResult.CodeSha256})`))
+
+      // 2. Update configuration if memory or timeout are managed here
+      if (lambdaConfig.memorySize || lambdaConfig.timeout) {
+        console.log(chalk.gray('Updating function configuration...'))
+        await client.send(new UpdateFunctionConfigurationCommand({
+          FunctionName: functionName,
+          MemorySize: lambdaConfig.memorySize,
+          Timeout: lambdaConfig.timeout
+        }))
+        await this.waitForUpdate(client, functionName)
+        console.log(chalk.green('✓ Function configuration updated'))
+      }
+
+      // 3. Publish an immutable version
+      console.log(chalk.gray('Publishing version...'))
+      const versionResult = await client.send(new PublishVersionCommand({
+        FunctionName: functionName,
+        CodeSha256: codeResult.CodeSha256,
+        Description: lambdaConfig.description || `heimdizzy ${service.name} ${artifact.key}`
+      }))
+      const version = versionResult.Version!
+      console.log(chalk.green(`✓ Published version ${version}`))
+
+      // 4. Shift the alias to the new version
+      let previousVersion: string | undefined
+      if (alias) {
+        previousVersion = await this.pointAlias(client, functionName, alias, version)
+        console.log(chalk.green(`✓ Alias ${alias} now points to version ${version}${previousVersion ? ` (was ${previousVersion})` : ''}`))
+      }
+
+      return {
+        functionName,
+        version,
+        alias,
+        previousVersion,
+        codeSha256: codeResult.CodeSha256
+      }
+    } catch (error: any) {
+      throw new Error(`Lambda deployment failed: ${error.message}`)
+    }
+  }
+
+  private createLambdaClient(storage: S3Config, lambdaConfig: LambdaDeploymentConfig): LambdaClient {
+    const clientConfig: any = {
+      region: lambdaConfig.region || storage.region || 'us-east-1'
+    }
+
+    // Handle custom endpoints (like a local Lambda API stand-in)
+    if (lambdaConfig.endpoint) {
+      clientConfig.endpoint = lambdaConfig.endpoint
+    }
+
+    return new LambdaClient(clientConfig)
+  }
+
+  /**
+   * Lambda rejects further updates while LastUpdateStatus is InProgress
+   */
+  private async waitForUpdate(client: LambdaClient, functionName: string): Promise<void> {
+    const maxRetries = 60
+    const retryDelay = 2000
+
+    for (let i = 0; i < maxRetries; i++) {
+      const config = await client.send(new GetFunctionConfigurationCommand({ FunctionName: functionName }))
+
+      if (config.LastUpdateStatus === 'Failed') {
+        throw new Error(`Function update failed: ${config.LastUpdateStatusReason}`)
+      }
+      if (config.LastUpdateStatus !== 'InProgress') {
+        return
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryDelay))
+    }
+
+    throw new Error(`Timed out waiting for ${functionName} update to finish`)
+  }
+
+  private async pointAlias(
+    client: LambdaClient,
+    functionName: string,
+    alias: string,
+    version: string
+  ): Promise<string | undefined> {
+    let previousVersion: string | undefined
+    try {
+      const existing = await client.send(new GetAliasCommand({ FunctionName: functionName, Name: alias }))
+      previousVersion = existing.FunctionVersion
+    } catch (error: any) {
+      if (error.name !== 'ResourceNotFoundException') {
+        throw error
+      }
+      await client.send(new CreateAliasCommand({
+        FunctionName: functionName,
+        Name: alias,
+        FunctionVersion: version
+      }))
+      return undefined
+    }
+    
+    await client.send(new UpdateAliasCommand({
+      FunctionName: functionName,
+      Name: alias,
+      FunctionVersion: version
+    }))
+    return previousVersion
+  }
+}
@@ -0,0 +1,145 @@
+import { execSync } from 'child_process'
+import { readFileSync, writeFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { tmpdir } from 'os'
+import { mkdtemp, rm } from 'fs/promises'
+import chalk from 'chalk'
+import type { NpmDeploymentConfig } from '../config/schema.js'
+
+export interface NpmPublishResult {
+  packageName: string
+  version: string
+  tag: string
+  registry: string
+  published: boolean
+  integrity?: string
+  shasum?: string
+  tarball?: string
+  size?: number
+}
+
+export class NpmPublishService {
+  async publish(
+    npmConfig: NpmDeploymentConfig,
+    dryRun: boolean = false
+  ): Promise<NpmPublishResult> {
+    const packageDir = resolve(npmConfig.packageDir)
+    const packageJsonPath = join(packageDir, 'package.json')
+
+    if (!existsSync(packageJsonPath)) {
+      throw new Error(`package.json not found in ${packageDir}`)
+    }
+
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'))
+    const { name: packageName, version } = packageJson
+    const registry = npmConfig.registry.endsWith('/') ? npmConfig.registry : `${npmConfig.registry}/`
+    const token = npmConfig.token || process.env.NPM_TOKEN
+
+    console.log(chalk.blue(`📦 Publishing ${packageName}@${version} to ${registry}`))
+
+    if (packageJson.private) {
+      throw new Error(`${packageName} is marked private and cannot be published`)
+    }
+
+    if (dryRun) {
+      console.log(chalk.yellow('[DRY RUN] Would publish package:'))
+      console.log(`  Package: ${packageName}@${version}`)
+      console.log(`  Registry: ${registry}`)
+      console.log(`  Access: ${npmConfig.access}`)
+      console.log(`  Tag: ${npmConfig.tag}`)
+      return {
+        packageName,
+        version,
+        tag: npmConfig.tag,
+        registry,
+        published: false
+      }
+    }
+
+    // 1. Skip versions that already exist in the registry
+    if (await this.versionExists(registry, packageName, version, token)) {
+      console.log(chalk.yellow(`⚠️  ${packageName}@${version} already exists in ${registry}, skipping publish`))
+      return {
+        packageName,
+        version,
+        tag: npmConfig.tag,
+        registry,
+        published: false
+      }
+    }
+
+    const workDir = await mkdtemp(join(tmpdir(), 'heimdizzy-npm-'))
+
+    try {
+      // 2. Pack the package
+      console.log(chalk.gray('Packing package...'))
+      const packOutput = execSync(`npm pack --json --pack-destination "${workDir}"`, {
+        cwd: packageDir,
+        encoding: 'utf-8'
+      })
+      const [pack] = JSON.parse(packOutput)
+      const tarballPath = join(workDir, pack.filename)
+      console.log(chalk.green(`✓ Packed ${pack.filename} (${pack.size} bytes)`))
+
+      // 3. Publish the tarball with a throwaway userconfig holding the token
+      const userConfigPath = join(workDir, '.npmrc')
+      const registryKey = registry.replace(/^https?:/, '')
+      writeFileSync(userConfigPath, token ? `${registryKey}:_authToken=${token}\n` : '')
+
+      console.log(chalk.gray(`Publishing with tag "${npmConfig.tag}" and ${npmConfig.access} access...`))
+      try {
+        execSync(
+          `npm publish "${tarballPath}" --registry ${registry} --access ${npmConfig.access} --tag ${npmConfig.tag} --userconfig "${userConfigPath}"`,
+          { cwd: packageDir, stdio: 'inherit' }
+        )
+      } catch (error: any) {
+        throw new Error(`npm publish failed: ${error.message}`)
+      }
+
+      console.log(chalk.green(`✓ Published ${packageName}@${version}`))
+      console.log(chalk.gray(`  Integrity: ${pack.integrity}`))
+
+      return {
+        packageName,
+        version,
+        tag: npmConfig.tag,
+        registry,
+        published: true,
+        integrity: pack.integrity,
+        shasum: pack.shasum,
+        tarball: pack.filename,
+        size: pack.size
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true })
+    }
+  }
+
+  private async versionExists(
+    registry: string,
+    packageName: string,
+    version: string,
+    token?: string
+  ): Promise<boolean> {
+    // Scoped packages are addressed as @scope%2fname
+    const url = `${registry}${packageName.replace('/', '%2f')}`
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8'
+    }
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`
+    }
+
+    const response = await fetch(url, { headers })
+
+    if (response.status === 404) {
+      return false
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to query ${url}: ${response.status}`)
+    }
+
+    const packument = await response.json() as any
+    return Boolean(packument.versions?.[version])
+  }
+}
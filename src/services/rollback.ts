@@ -0,0 +1,279 @@
+import { execSync } from 'child_process'
+import chalk from 'chalk'
+import type { ContainerDeploymentConfig } from '../config/schema.js'
+import type { DeploymentRecord } from './history.js'
+import { GitOpsContainerDeploymentService, type GitOpsContainerDeploymentResult } from './gitops-container-deployment.js'
+import { WebDeploymentService, type WebRestoreResult, type WebReleaseActivation } from './web-deployment.js'
+
+export interface RollbackTarget {
+  gitHash: string
+  imageTag?: string
+  // Time the target release went live, used to restore web deploys
+  timestamp?: string
+  recordId?: string
+}
+
+export interface RollbackResult {
+  target: RollbackTarget
+  imageName?: string
+  namespace?: string
+  podCount?: number
+  gitops?: GitOpsContainerDeploymentResult
+  web?: WebRestoreResult
+  release?: WebReleaseActivation
+}
+
+const WORKLOAD_TYPES = ['service', 'container']
+
+export class RollbackService {
+  private gitOpsService = new GitOpsContainerDeploymentService()
+  private webDeploymentService = new WebDeploymentService()
+
+  /**
+   * Whether successful history records (newest first) already hold the release resolveTarget
+   * would pick, so that older history doesn't need to be read
+   */
+  targetFound(records: DeploymentRecord[], to?: string): boolean {
+    if (to) {
+      return records.some(record => record.gitHash.startsWith(to) || record.imageTag === to)
+    }
+    return records.some(record => record.gitHash !== records[0].gitHash)
+  }
+
+  /**
+   * Pick the release to return to from successful history records (newest first).
+   * Without `to`, this is the newest release that differs from the one running now.
+   */
+  async resolveTarget(deploymentConfig: any, records: DeploymentRecord[], to?: string): Promise<RollbackTarget> {
+    const { deployment, storage } = deploymentConfig
+    const fromRecord = (record: DeploymentRecord): RollbackTarget => ({
+      gitHash: record.gitHash,
+      imageTag: record.imageTag || record.gitHash,
+      timestamp: record.timestamp,
+      recordId: record.id
+    })
+
+    if (to) {
+      const match = records.find(record => record.gitHash.startsWith(to) || record.imageTag === to)
+      if (match) {
+        return fromRecord(match)
+      }
+      // Pushed images and retained web releases outlive the ledger, so go back to them directly
+      const containerConfig = this.containerConfig(deployment)
+      if (containerConfig && this.imageExists(containerConfig, to)) {
+        return { gitHash: to, imageTag: to }
+      }
+      if (deployment.type === 'web' && deployment.web?.releases.enabled) {
+        const { releases } = await this.webDeploymentService.listReleases(storage, deployment.web)
+        const release = releases.find(release => release.gitHash.startsWith(to))
+        if (release) {
+          return { gitHash: release.gitHash }
+        }
+      }
+      throw new Error(`No successful ${deployment.type} deployment of ${to} found in history`)
+    }
+
+    const [current] = records
+    const previous = records.find(record => current && record.gitHash !== current.gitHash)
+    if (!previous) {
+      throw new Error('No previous successful deployment found in history to roll back to')
+    }
+    return fromRecord(previous)
+  }
+
+  async rollback(
+    service: any,
+    deploymentConfig: any,
+    target: RollbackTarget,
+    environment: string,
+    dryRun: boolean = false,
+    fullConfig?: any
+  ): Promise<RollbackResult> {
+    const { deployment, storage } = deploymentConfig
+
+    if (deployment.type === 'web') {
+      if (!deployment.web) {
+        throw new Error('Web deployment configuration is required for web deploy type')
+      }
+      const serviceInfo = { name: service.name, product: service.product }
+      
+      // Flip back to a retained release when there is one
+      if (deployment.web.releases.enabled) {
+        const { releases } = await this.webDeploymentService.listReleases(storage, deployment.web)
+        if (releases.some(release => release.gitHash.startsWith(target.gitHash))) {
+          const release = await this.webDeploymentService.activateRelease(
+            serviceInfo,
+            storage,
+            deployment.web,
+            target.gitHash,
+            dryRun
+          )
+          return { target, release }
+        }
+        console.log(chalk.yellow(`Release ${target.gitHash} is no longer retained, restoring from object versions`))
+      }
+      
+      if (!target.timestamp) {
+        throw new Error(`Web rollback needs a retained release or a recorded deployment of ${target.gitHash}`)
+      }
+
+      const web = await this.webDeploymentService.restoreAsOf(
+        serviceInfo,
+        storage,
+        deployment.web,
+        target.timestamp,
+        dryRun
+      )
+      return { target, web }
+    }
+
+    if (WORKLOAD_TYPES.includes(deployment.type)) {
+      const containerConfig = this.containerConfig(deployment)
+      if (!containerConfig) {
+        throw new Error(`Container configuration is required to roll back ${deployment.type} deployments`)
+      }
+
+      const imageTag = target.imageTag || target.gitHash
+
+      if (containerConfig.gitops) {
+        const gitops = await this.gitOpsService.rollback(
+          service,
+          containerConfig,
+          imageTag,
+          target.gitHash,
+          environment,
+          fullConfig,
+          dryRun
+        )
+        return {
+          target,
+          imageName: gitops.imageName,
+          namespace: gitops.namespace,
+          podCount: gitops.rollout?.podCount,
+          gitops
+        }
+      }
+
+      return this.rollbackDeployment(service, containerConfig, target, imageTag, dryRun)
+    }
+
+    throw new Error(`Rollback is not supported for ${deployment.type} deployments`)
+  }
+
+  private containerConfig(deployment: any): ContainerDeploymentConfig | undefined {
+    if (!WORKLOAD_TYPES.includes(deployment.type)) {
+      return undefined
+    }
+    return deployment.type === 'service' ? deployment.service?.container : deployment.container
+  }
+
+  /**
+   * Whether the registry still has imageTag. Deploys push `<gitHash>-<timestamp>` tags, so a
+   * bare git hash usually isn't one.
+   */
+  private imageExists(config: ContainerDeploymentConfig, imageTag: string): boolean {
+    const { registry } = config
+    try {
+      execSync(
+        `docker manifest inspect ${registry.insecure ? '--insecure ' : ''}${registry.endpoint}/${registry.repository}:${imageTag}`,
+        { stdio: 'pipe' }
+      )
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * The container to re-point: kubernetes.containerName, else the Deployment's only container,
+   * else the one running our repository or named after the service
+   */
+  private resolveContainerName(service: any, config: ContainerDeploymentConfig): string {
+    const { registry, kubernetes } = config
+    if (kubernetes.containerName) {
+      return kubernetes.containerName
+    }
+
+    let containers: { name: string, image?: string }[]
+    try {
+      const output = execSync(
+        `kubectl get deployment/${service.name} -n ${kubernetes.namespace} -o jsonpath='{.spec.template.spec.containers}'`,
+        { encoding: 'utf-8', stdio: 'pipe' }
+      )
+      containers = JSON.parse(output || '[]')
+    } catch (error: any) {
+      throw new Error(`Failed to read containers of deployment/${service.name}: ${error.message}`)
+    }
+
+    if (containers.length === 1) {
+      return containers[0].name
+    }
+    const container = containers.find(container => container.image?.includes(registry.repository)) ||
+      containers.find(container => container.name === service.name)
+    if (!container) {
+      throw new Error(`Can't tell which container of deployment/${service.name} to roll back, set kubernetes.containerName`)
+    }
+    return container.name
+  }
+
+  /**
+   * Re-point the Deployment at a previously pushed image and wait for the rollout
+   */
+  private async rollbackDeployment(
+    service: any,
+    config: ContainerDeploymentConfig,
+    target: RollbackTarget,
+    imageTag: string,
+    dryRun: boolean
+  ): Promise<RollbackResult> {
+    const { registry, kubernetes } = config
+    const imageName = `${registry.endpoint}/${registry.repository}:${imageTag}`
+
+    if (dryRun) {
+      console.log(chalk.yellow('[DRY RUN] Would roll back deployment:'))
+      console.log(`  Deployment: ${service.name}`)
+      console.log(`  Image: ${imageName}`)
+      console.log(`  Namespace: ${kubernetes.namespace}`)
+      return {
+        target,
+        imageName,
+        namespace: kubernetes.namespace
+      }
+    }
+
+    const containerName = this.resolveContainerName(service, config)
+    console.log(chalk.gray(`Pointing deployment/${service.name} (container ${containerName}) at ${imageName}...`))
+    try {
+      execSync(
+        `kubectl set image deployment/${service.name} ${containerName}=${imageName} -n ${kubernetes.namespace}`,
+        { stdio: 'inherit' }
+      )
+    } catch (error: any) {
+      throw new Error(`Failed to update deployment image: ${error.message}`)
+    }
+
+    console.log(chalk.gray('⏳ Waiting for rollout to complete...'))
+    try {
+      execSync(
+        `kubectl rollout status deployment/${service.name} -n ${kubernetes.namespace} --timeout=${kubernetes.deploymentTimeout}s`,
+        { stdio: 'inherit' }
+      )
+    } catch (error: any) {
+      throw new Error(`Rollout to ${imageName} did not complete: ${error.message}`)
+    }
+
+    const podCount = parseInt(execSync(
+      `kubectl get pods -n ${kubernetes.namespace} -l app=${service.name} --no-headers 2>/dev/null | wc -l`,
+      { encoding: 'utf-8' }
+    ).trim()) || 0
+
+    console.log(chalk.green(`✓ Rolled back to ${imageName}. ${podCount} pods running.`))
+
+    return {
+      target,
+      imageName,
+      namespace: kubernetes.namespace,
+      podCount
+    }
+  }
+}
@@ -9,8 +9,17 @@ export interface RustBuildOptions {
   features?: string[]
 }
 
+export interface MultiPlatformBuildOptions {
+  imageRefs: string[]
+  platforms: string[]
+  dockerfile?: string
+  buildArgs?: Record<string, string>
+  metadataFile: string
+}
+
 export class RustBuildService {
-  
+  private static BUILDER_NAME = 'heimdizzy-builder'
+
   async buildDockerImage(
     serviceName: string,
     tag: string,
@@ -18,20 +27,56 @@ export class RustBuildService {
     buildArgs?: Record<string, string>
   ): Promise<void> {
     console.log(chalk.gray(`📦 Building Docker image for ${serviceName}...`))
-    
-    // Prepare build arguments
+
+    // Build the image
+    const buildCommand = `docker build -f ${dockerfile} ${this.formatBuildArgs(buildArgs)} -t ${serviceName}:${tag} .`
+    console.log(chalk.gray(`  Command: ${buildCommand}`))
+
+    execSync(buildCommand, { stdio: 'inherit' })
+    console.log(chalk.green(`✓ Docker image built: ${serviceName}:${tag}`))
+  }
+
+  /**
+   * Build and push a multi-platform image with buildx. The resulting manifest
+   * list digest is written to options.metadataFile by buildx.
+   */
+  async buildMultiPlatformImage(options: MultiPlatformBuildOptions): Promise<void> {
+    const { imageRefs, platforms, dockerfile = 'Dockerfile', buildArgs, metadataFile } = options
+    console.log(chalk.gray(`📦 Building multi-platform image for ${platforms.join(', ')}...`))
+
+    // The default docker driver can't produce manifest lists, so use a docker-container builder
+    try {
+      execSync(`docker buildx inspect ${RustBuildService.BUILDER_NAME}`, { stdio: 'pipe' })
+    } catch {
+      console.log(chalk.gray(`  Creating buildx builder ${RustBuildService.BUILDER_NAME}...`))
+      execSync(`docker buildx create --name ${RustBuildService.BUILDER_NAME} --driver docker-container`, {
+        stdio: 'inherit'
+      })
+    }
+
+    const tagArgs = imageRefs.map(ref => `-t ${ref}`).join(' ')
+    const buildCommand = [
+      `docker buildx build --builder ${RustBuildService.BUILDER_NAME}`,
+      `--platform ${platforms.join(',')}`,
+      `-f ${dockerfile}`,
+      this.formatBuildArgs(buildArgs),
+      tagArgs,
+      `--metadata-file ${metadataFile}`,
+      '--push .'
+    ].filter(Boolean).join(' ')
+    console.log(chalk.gray(`  Command: ${buildCommand}`))
+
+    execSync(buildCommand, { stdio: 'inherit' })
+    console.log(chalk.green(`✓ Multi-platform image pushed: ${imageRefs.join(', ')}`))
+  }
+
+  private formatBuildArgs(buildArgs?: Record<string, string>): string {
     const args = []
     if (buildArgs) {
       for (const [key, value] of Object.entries(buildArgs)) {
         args.push(`--build-arg ${key}=${value}`)
       }
     }
-    
-    // Build the image
-    const buildCommand = `docker build -f ${dockerfile} ${args.join(' ')} -t ${serviceName}:${tag} .`
-    console.log(chalk.gray(`  Command: ${buildCommand}`))
-    
-    execSync(buildCommand, { stdio: 'inherit' })
-    console.log(chalk.green(`✓ Docker image built: ${serviceName}:${tag}`))
+    return args.join(' ')
   }
-}
\ No newline at end of file
+}
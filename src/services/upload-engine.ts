@@ -0,0 +1,318 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand
+} from '@aws-sdk/client-s3'
+import { promises as fs } from 'fs'
+import ora, { type Ora } from 'ora'
+import chalk from 'chalk'
+import type { UploadEngineConfig } from '../config/schema.js'
+
+export interface ObjectHeaders {
+  contentType?: string
+  contentEncoding?: string
+  cacheControl?: string
+  contentDisposition?: string
+  websiteRedirectLocation?: string
+  metadata?: Record<string, string>
+}
+
+export interface UploadTask extends ObjectHeaders {
+  key: string
+  filePath: string
+  // Uploaded instead of the file contents when set, e.g. a compressed copy
+  body?: Buffer
+}
+
+export interface CopyTask {
+  sourceKey: string
+  key: string
+  // Replaces the source object's headers and metadata when set
+  headers?: ObjectHeaders
+}
+
+export interface UploadSummary {
+  files: number
+  bytes: number
+  multipart: number
+  retries: number
+}
+
+// S3 allows at most 10,000 parts per upload
+const MAX_PARTS = 10000
+const PART_CONCURRENCY = 4
+const RETRYABLE_ERRORS = ['SlowDown', 'Throttling', 'ThrottlingException', 'RequestTimeout', 'RequestTimeTooSkewed', 'InternalError', 'ServiceUnavailable']
+const RETRYABLE_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ECONNREFUSED', 'EAI_AGAIN']
+
+/**
+ * Run fn over items with at most `concurrency` calls in flight, keeping result order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  let failed = false
+
+  const worker = async () => {
+    // Stop handing out work once anything has failed
+    while (next < items.length && !failed) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
+
+/**
+ * Shared S3 upload path: a concurrency pool, multipart uploads for large files and retry with
+ * exponential backoff on throttling, 5xx and network errors. Progress goes to the given spinner.
+ */
+export class UploadEngine {
+  private retries = 0
+  private activeSpinner?: Ora
+
+  constructor(
+    private client: S3Client,
+    private bucket: string,
+    private config: UploadEngineConfig,
+    private spinner?: Ora
+  ) {}
+
+  async uploadAll(tasks: UploadTask[], label: string = 'Uploading'): Promise<UploadSummary> {
+    const sizes = await Promise.all(tasks.map(async task => task.body?.length ?? (await fs.stat(task.filePath)).size))
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0)
+    const summary: UploadSummary = { files: 0, bytes: 0, multipart: 0, retries: 0 }
+    const retriesBefore = this.retries
+
+    if (tasks.length === 0) {
+      return summary
+    }
+
+    await this.withProgress(`${label} 0/${tasks.length} files`, async update => {
+      await mapConcurrent(tasks, this.config.concurrency, async (task, index) => {
+        const multipart = await this.uploadFile(task, sizes[index])
+        summary.files++
+        summary.bytes += sizes[index]
+        if (multipart) summary.multipart++
+        update(`${label} ${summary.files}/${tasks.length} files (${this.formatBytes(summary.bytes)} of ${this.formatBytes(totalBytes)})`)
+      })
+      return `${label}: ${summary.files} files, ${this.formatBytes(summary.bytes)}`
+    })
+
+    summary.retries = this.retries - retriesBefore
+    return summary
+  }
+
+  async copyAll(tasks: CopyTask[], label: string = 'Copying'): Promise<number> {
+    if (tasks.length === 0) {
+      return 0
+    }
+
+    let copied = 0
+    await this.withProgress(`${label} 0/${tasks.length} files`, async update => {
+      await mapConcurrent(tasks, this.config.concurrency, async task => {
+        await this.copyObject(task)
+        copied++
+        update(`${label} ${copied}/${tasks.length} files`)
+      })
+      return `${label}: ${copied} files`
+    })
+    return copied
+  }
+
+  /**
+   * Upload one file, using multipart above the configured threshold.
+   * Returns whether multipart was used.
+   */
+  async uploadFile(task: UploadTask, size?: number): Promise<boolean> {
+    const fileSize = size ?? task.body?.length ?? (await fs.stat(task.filePath)).size
+
+    if (fileSize > this.config.multipartThreshold && !task.body) {
+      await this.uploadMultipart(task, fileSize)
+      return true
+    }
+
+    const body = task.body ?? await fs.readFile(task.filePath)
+    await this.withRetry(`upload ${task.key}`, () => this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: task.key,
+      Body: body,
+      ContentLength: fileSize,
+      ContentType: task.contentType,
+      ContentEncoding: task.contentEncoding,
+      CacheControl: task.cacheControl,
+      ContentDisposition: task.contentDisposition,
+      WebsiteRedirectLocation: task.websiteRedirectLocation,
+      Metadata: task.metadata
+    })))
+    return false
+  }
+
+  async copyObject(task: CopyTask): Promise<void> {
+    await this.withRetry(`copy ${task.key}`, () => this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: task.key,
+      // Encode each segment but keep the slashes, which every S3 implementation accepts
+      CopySource: `${this.bucket}/${task.sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+      MetadataDirective: task.headers ? 'REPLACE' : 'COPY',
+      ContentType: task.headers?.contentType,
+      ContentEncoding: task.headers?.contentEncoding,
+      CacheControl: task.headers?.cacheControl,
+      ContentDisposition: task.headers?.contentDisposition,
+      WebsiteRedirectLocation: task.headers?.websiteRedirectLocation,
+      Metadata: task.headers?.metadata
+    })))
+  }
+
+  private async uploadMultipart(task: UploadTask, size: number): Promise<void> {
+    const partSize = Math.max(this.config.partSize, Math.ceil(size / MAX_PARTS))
+    const partCount = Math.ceil(size / partSize)
+
+    const { UploadId } = await this.withRetry(`start multipart ${task.key}`, () => this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: task.key,
+      ContentType: task.contentType,
+      ContentEncoding: task.contentEncoding,
+      CacheControl: task.cacheControl,
+      ContentDisposition: task.contentDisposition,
+      WebsiteRedirectLocation: task.websiteRedirectLocation,
+      Metadata: task.metadata
+    })))
+
+    const handle = await fs.open(task.filePath, 'r')
+    try {
+      // Parts are read from disk one at a time per worker, so the file is never fully in memory
+      const parts = await mapConcurrent(
+        Array.from({ length: partCount }, (_, i) => i),
+        PART_CONCURRENCY,
+        async i => {
+          const start = i * partSize
+          const length = Math.min(partSize, size - start)
+          const buffer = Buffer.alloc(length)
+          await handle.read(buffer, 0, length, start)
+
+          const { ETag } = await this.withRetry(`upload part ${i + 1}/${partCount} of ${task.key}`, () => this.client.send(new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: task.key,
+            UploadId,
+            PartNumber: i + 1,
+            Body: buffer,
+            ContentLength: length
+          })))
+          return { ETag, PartNumber: i + 1 }
+        }
+      )
+
+      await this.withRetry(`complete multipart ${task.key}`, () => this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: task.key,
+        UploadId,
+        MultipartUpload: { Parts: parts }
+      })))
+    } catch (error) {
+      // Don't leave orphaned parts behind to be billed
+      await this.client.send(new AbortMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: task.key,
+        UploadId
+      })).catch(() => undefined)
+      throw error
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private async withRetry<T>(description: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn()
+      } catch (error: any) {
+        if (attempt >= this.config.maxRetries || !this.isRetryable(error)) {
+          throw new Error(`Failed to ${description}: ${error.message}`)
+        }
+
+        // Full jitter keeps a throttled pool from retrying in lockstep
+        const delay = Math.round(Math.random() * this.config.retryDelay * 2 ** attempt)
+        this.retries++
+        this.log(chalk.yellow(`⚠️  ${description} failed (${error.name || error.code}), retrying in ${delay}ms (${attempt + 1}/${this.config.maxRetries})`))
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = error.$metadata?.httpStatusCode
+    return status === 429 ||
+      (status !== undefined && status >= 500) ||
+      RETRYABLE_ERRORS.includes(error.name) ||
+      RETRYABLE_CODES.includes(error.code) ||
+      Boolean(error.$retryable)
+  }
+
+  /**
+   * Show progress on the caller's spinner, or on one of our own when there is none
+   */
+  private async withProgress(
+    initialText: string,
+    fn: (update: (text: string) => void) => Promise<string>
+  ): Promise<void> {
+    const ownSpinner = !this.spinner
+    const spinner = this.spinner || ora()
+    const previousText = spinner.text
+    this.activeSpinner = spinner
+
+    if (ownSpinner) {
+      spinner.start(initialText)
+    } else {
+      spinner.text = initialText
+    }
+
+    try {
+      const doneText = await fn(text => { spinner.text = text })
+      if (ownSpinner) {
+        spinner.succeed(doneText)
+      } else {
+        this.log(chalk.green(`☁️  ${doneText}`))
+      }
+    } catch (error) {
+      if (ownSpinner) spinner.fail()
+      throw error
+    } finally {
+      this.activeSpinner = undefined
+      if (!ownSpinner) spinner.text = previousText
+    }
+  }
+
+  private log(message: string): void {
+    const spinner = this.activeSpinner
+    if (spinner?.isSpinning) {
+      // Print above the running spinner instead of through it
+      spinner.clear()
+      console.log(message)
+      spinner.render()
+    } else {
+      console.log(message)
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    const sizes = ['Bytes', 'KB', 'MB', 'GB']
+    if (bytes === 0) return '0 Bytes'
+    const i = Math.floor(Math.log(bytes) / Math.log(1024))
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
+  }
+}
@@ -1,32 +1,45 @@
-import { S3Client, PutObjectCommand, CreateBucketCommand, HeadBucketCommand } from '@aws-sdk/client-s3'
-import { createReadStream, statSync, existsSync, unlinkSync } from 'fs'
+import { S3Client, CreateBucketCommand, HeadBucketCommand } from '@aws-sdk/client-s3'
 import { createHash } from 'crypto'
 import { readFileSync } from 'fs'
-import { execSync } from 'child_process'
 import archiver from 'archiver'
 import { createWriteStream } from 'fs'
 import { join } from 'path'
 import chalk from 'chalk'
-import type { BuildResult } from './build.js'
+import type { Ora } from 'ora'
+import { BUILD_MANIFEST_FILE, type BuildResult } from './build.js'
 import type { HeimdizzyConfig } from '../config/schema.js'
+import { UploadEngine } from './upload-engine.js'
+
+export interface UploadResult {
+  artifactPath: string
+  bucket?: string
+  key?: string
+  localPath?: string
+  fileHash?: string
+}
 
 export class UploadService {
+  constructor(private spinner?: Ora) {}
+  
   async upload(
     service: any, 
     deploymentConfig: any, 
-    dryRun: boolean = false
-  ): Promise<string> {
-    const buildResult = await this.getBuildResult()
+    dryRun: boolean = false,
+    buildResult?: BuildResult | null
+  ): Promise<UploadResult> {
     const { storage, deployment } = deploymentConfig
     
     if (deployment.type === 'lambda-zip') {
+      if (!buildResult) {
+        throw new Error(`No build artifact found for ${service.name}. Run a build first (target/${BUILD_MANIFEST_FILE} is missing)`)
+      }
       return this.uploadLambdaZip(service, buildResult, storage, deploymentConfig, dryRun)
     }
     
     if (deployment.type === 'web') {
       // Web deployments handle their own file upload in the deployment service
       console.log(chalk.yellow('Skipping upload for web deployment - handled in deployment phase'))
-      return 'web-deployment-no-artifacts'
+      return { artifactPath: 'web-deployment-no-artifacts' }
     }
     
     throw new Error(`Deployment type ${deployment.type} not yet supported`)
@@ -38,7 +51,7 @@ export class UploadService {
     storage: any,
     deploymentConfig: any,
     dryRun: boolean
-  ): Promise<string> {
+  ): Promise<UploadResult> {
     const version = `v${buildResult.gitHash}`
     const zipFileName = `lambda-${version}.zip`
     const zipPath = join(process.cwd(), 'target', zipFileName)
@@ -48,13 +61,6 @@ export class UploadService {
     if (!dryRun) {
       // Create ZIP package
       await this.createZipPackage(buildResult.binaryPath, zipPath)
-      
-      // Clean up bootstrap file if it exists
-      const bootstrapPath = join(process.cwd(), 'target/bootstrap')
-      if (existsSync(bootstrapPath)) {
-        unlinkSync(bootstrapPath)
-        console.log(chalk.gray('✓ Cleaned up bootstrap file'))
-      }
     }
     
     // Calculate file hash
@@ -63,6 +69,13 @@ export class UploadService {
     // Upload to S3/MinIO
     const s3Key = `${service.name}/lambda-${version}.zip`
     const latestKey = `${service.name}/lambda-latest.zip`
+    const result: UploadResult = {
+      artifactPath: `s3://${storage.bucket}/${s3Key}`,
+      bucket: storage.bucket,
+      key: s3Key,
+      localPath: zipPath,
+      fileHash
+    }
     
     if (dryRun) {
       console.log(chalk.yellow('[DRY RUN] Would upload:'))
@@ -70,7 +83,7 @@ export class UploadService {
       console.log(`  Key: ${s3Key}`)
       console.log(`  Latest: ${latestKey}`)
       console.log(`  Hash: ${fileHash}`)
-      return `s3://${storage.bucket}/${s3Key}`
+      return result
     }
     
     const s3Client = this.createS3Client(storage)
@@ -78,25 +91,30 @@ export class UploadService {
     // Ensure bucket exists
     await this.ensureBucket(s3Client, storage.bucket)
     
+    const uploadEngine = new UploadEngine(s3Client, storage.bucket, storage.upload, this.spinner)
+    
     // Upload versioned artifact
-    await this.uploadFile(s3Client, storage.bucket, s3Key, zipPath, {
-      'git-hash': buildResult.gitHash,
-      'build-timestamp': buildResult.timestamp,
-      'file-hash': fileHash,
-      'service': service.name,
-      'environment': deploymentConfig.environment
-    })
+    const { bytes, multipart } = await uploadEngine.uploadAll([{
+      key: s3Key,
+      filePath: zipPath,
+      contentType: 'application/zip',
+      metadata: {
+        'git-hash': buildResult.gitHash,
+        'build-timestamp': buildResult.timestamp,
+        'build-id': buildResult.buildId,
+        'binary-sha256': buildResult.sha256 || 'unknown',
+        'file-hash': fileHash,
+        'service': service.name,
+        'environment': deploymentConfig.environment
+      }
+    }], `Uploading ${zipFileName}`)
+    console.log(chalk.green(`✓ Uploaded ${s3Key} (${this.formatBytes(bytes)}${multipart ? ', multipart' : ''})`))
     
-    // Upload as latest
-    await this.uploadFile(s3Client, storage.bucket, latestKey, zipPath, {
-      'git-hash': buildResult.gitHash,
-      'build-timestamp': buildResult.timestamp,
-      'file-hash': fileHash,
-      'service': service.name,
-      'environment': deploymentConfig.environment
-    })
+    // Point latest at it with a server-side copy, which keeps the metadata
+    await uploadEngine.copyObject({ sourceKey: s3Key, key: latestKey })
+    console.log(chalk.green(`✓ Copied to ${latestKey}`))
     
-    return `s3://${storage.bucket}/${s3Key}`
+    return result
   }
   
   private createS3Client(storage: any): S3Client {
@@ -140,28 +158,6 @@ export class UploadService {
     }
   }
   
-  private async uploadFile(
-    client: S3Client, 
-    bucket: string, 
-    key: string, 
-    filePath: string,
-    metadata: Record<string, string>
-  ): Promise<void> {
-    const fileStream = createReadStream(filePath)
-    const stats = statSync(filePath)
-    
-    await client.send(new PutObjectCommand({
-      Bucket: bucket,
-      Key: key,
-      Body: fileStream,
-      ContentType: 'application/zip',
-      ContentLength: stats.size,
-      Metadata: metadata
-    }))
-    
-    console.log(chalk.green(`✓ Uploaded ${key} (${this.formatBytes(stats.size)})`))
-  }
-  
   private async createZipPackage(binaryPath: string, zipPath: string): Promise<void> {
     const output = createWriteStream(zipPath)
     const archive = archiver('zip', {
@@ -201,35 +197,4 @@ export class UploadService {
     const i = Math.floor(Math.log(bytes) / Math.log(1024))
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
   }
-  
-  private async getBuildResult(): Promise<BuildResult> {
-    // In a real implementation, this would be passed from the build step
-    // For now, we'll reconstruct it
-    const gitHash = this.getGitHash()
-    const buildId = `${Date.now()}-${gitHash.substring(0, 8)}`
-    
-    // Check for Docker-built bootstrap first, then fallback to direct build
-    const targetPath = join(process.cwd(), 'target')
-    const bootstrapPath = join(targetPath, 'bootstrap')
-    let binaryPath = bootstrapPath
-    
-    if (!existsSync(bootstrapPath)) {
-      binaryPath = join(targetPath, 'x86_64-unknown-linux-gnu/release/lambda')
-    }
-    
-    return {
-      binaryPath,
-      gitHash,
-      buildId,
-      timestamp: new Date().toISOString()
-    }
-  }
-  
-  private getGitHash(): string {
-    try {
-      return execSync('git rev-parse --short HEAD', { encoding: 'utf-8' }).trim()
-    } catch {
-      return Date.now().toString(36)
-    }
-  }
 }
\ No newline at end of file
@@ -1,13 +1,33 @@
 import { execSync, spawn } from 'child_process'
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
-import { CloudFrontClient, CreateInvalidationCommand } from '@aws-sdk/client-cloudfront'
-import { promises as fs } from 'fs'
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  HeadObjectCommand,
+  GetBucketVersioningCommand,
+  ListObjectVersionsCommand
+} from '@aws-sdk/client-s3'
+import { CloudFrontClient, CreateInvalidationCommand, GetInvalidationCommand } from '@aws-sdk/client-cloudfront'
+import { promises as fs, createReadStream } from 'fs'
+import { createHash } from 'crypto'
+import { promisify } from 'util'
+import { brotliCompress as brotliCompressCallback, gzip as gzipCallback, constants as zlibConstants } from 'zlib'
 import path from 'path'
 import { glob } from 'glob'
+import { minimatch } from 'minimatch'
 import mime from 'mime-types'
 import chalk from 'chalk'
 
-import type { S3Config, WebDeploymentConfig } from '../config/schema.js'
+import type { Ora } from 'ora'
+import type { S3Config, WebDeploymentConfig, WebHeaderRule, WebRedirectRule } from '../config/schema.js'
+import { UploadEngine, mapConcurrent, type UploadTask, type CopyTask, type ObjectHeaders } from './upload-engine.js'
+
+const brotliCompress = promisify(brotliCompressCallback)
+const gzip = promisify(gzipCallback)
 
 interface ServiceInfo {
   name: string
@@ -19,13 +39,104 @@ interface WebDeploymentResult {
   invalidationId?: string
   buildTime?: number
   deployTime: number
+  uploadedFiles: number
+  skippedFiles: number
+  deletedFiles: number
+  totalBytes?: number
+  compressedFiles?: number
+  compressionSavedBytes?: number
+  release?: string
+  previousRelease?: string
+  prunedReleases?: string[]
+  preview?: string
+  previewUrl?: string
+}
+
+type CompressionAlgorithm = 'br' | 'gzip'
+
+const SIDECAR_SUFFIXES: Record<CompressionAlgorithm, string> = {
+  br: '.br',
+  gzip: '.gz'
+}
+
+// One object to publish for a build file; body is set when it differs from the file on disk
+interface WebObject {
+  name: string
+  body?: Buffer
+  contentEncoding?: string
+}
+
+// Headers for one build file, shared by its compressed variants
+interface WebFileHeaders {
+  // Index into webConfig.headers, unset when only the defaults applied
+  rule?: number
+  contentType: string
+  cacheControl: string
+  contentDisposition?: string
+  metadata?: Record<string, string>
+}
+
+interface WebSizeStats {
+  totalBytes: number
+  compressedFiles: number
+  savedBytes: number
+}
+
+// Published as routing.manifestKey for the edge function that serves the site
+export interface WebRoutingManifest {
+  version: 1
+  indexFile: string
+  spaFallback: boolean
+  redirects: WebRedirectRule[]
+}
+
+export interface WebReleaseEntry {
+  gitHash: string
+  createdAt: string
+  files: number
+  // Fingerprint of the header rules the release was uploaded with
+  headers?: string
+}
+
+// Stored as <releases.prefix>/<path>/index.json, the pointer to the live release
+export interface WebReleaseIndex {
+  current?: string
+  releases: WebReleaseEntry[]
+}
+
+// Stored as <preview.prefix>/<path>/<name>.json next to each preview, outside the prefix it prunes
+export interface WebPreview {
+  branch: string
+  name: string
+  gitHash: string
+  url?: string
+  deployedAt: string
+}
+
+export interface WebPreviewPrune {
+  preview: WebPreview
+  reason: string
+}
+
+export interface WebReleaseActivation {
+  release: string
+  previousRelease?: string
+  copiedFiles: number
+  removedFiles: number
+  invalidationId?: string
+}
+
+export interface WebRestoreResult {
+  restoredFiles: number
+  removedFiles: number
+  invalidationId?: string
 }
 
 export class WebDeploymentService {
   private s3Client: S3Client
   private cloudfrontClient: CloudFrontClient
 
-  constructor() {
+  constructor(private spinner?: Ora) {
     this.s3Client = new S3Client({
       region: process.env.AWS_REGION || 'us-east-1'
     })
@@ -38,6 +149,7 @@ export class WebDeploymentService {
     serviceInfo: ServiceInfo,
     s3Config: S3Config,
     webConfig: WebDeploymentConfig,
+    gitHash: string,
     dryRun = false
   ): Promise<WebDeploymentResult> {
     const deployStartTime = Date.now()
@@ -78,120 +190,303 @@ export class WebDeploymentService {
         await fs.access(buildDir)
         files = await glob('**/*', { 
           cwd: buildDir,
-          nodir: true
+          nodir: true,
+          dot: true // e.g. .well-known/
         })
         console.log(chalk.green(`📄 Found ${files.length} files to deploy`))
       } catch (error) {
         throw new Error(`Build directory not found: ${buildDir}`)
       }
     } else {
-      console.log(chalk.gray('(Dry run: files would be discovered)'))
-      files = ['index.html', 'assets/app.js', 'css/style.css'] // Mock files for dry run
+      // Use the output of the last build when there is one, so the header table is meaningful
+      files = await glob('**/*', { cwd: buildDir, nodir: true, dot: true })
+      if (files.length > 0) {
+        console.log(chalk.gray(`(Dry run: using ${files.length} files from the last build)`))
+      } else {
+        console.log(chalk.gray('(Dry run: files would be discovered)'))
+        files = ['index.html', 'assets/app.js', 'css/style.css'] // Mock files for dry run
+      }
+    }
+
+    if (webConfig.routing) {
+      this.validateRouting(webConfig, files)
     }
 
-    // Step 3: Upload files to S3
-    console.log(chalk.yellow(`☁️  Uploading to S3 bucket: ${s3Config.bucket}`))
+    // Step 3: Upload changed files to S3
+    const { releases } = webConfig
+    const livePrefix = this.livePrefix(webConfig)
+    const releaseKeyPrefix = releases.enabled ? `${this.releasesPrefix(webConfig)}/${gitHash}/` : livePrefix
+    console.log(chalk.yellow(`☁️  Uploading to S3 bucket: ${s3Config.bucket}${releases.enabled ? ` (release ${gitHash})` : ''}`))
     
     const s3Client = this.createS3Client(s3Config)
+    const index: WebReleaseIndex = releases.enabled && !dryRun
+      ? await this.readReleaseIndex(s3Client, s3Config, webConfig)
+      : { releases: [] }
+    const previousRelease = index.current
+    const previousKeyPrefix = previousRelease ? `${this.releasesPrefix(webConfig)}/${previousRelease}/` : undefined
+    const headerPolicy = this.headerPolicy(webConfig)
     
-    for (const file of files) {
-      const filePath = path.join(buildDir, file)
-      // Add path prefix if specified
-      const normalizedFile = file.replace(/\\/g, '/') // Normalize path separators for S3
-      const s3Key = webConfig.path ? `${webConfig.path}/${normalizedFile}` : normalizedFile
+    // A release is rebuilt from scratch when the same hash is deployed again, so files left
+    // from the earlier upload can't be promoted along with it
+    let leftoverFiles: string[] = []
+    if (releases.enabled && !dryRun) {
+      const leftover = [...(await this.listObjects(s3Client, s3Config.bucket, releaseKeyPrefix)).keys()]
+      await this.deleteKeys(s3Client, s3Config.bucket, leftover)
+      leftoverFiles = leftover.map(key => key.substring(releaseKeyPrefix.length))
+    }
+    
+    // ETags of what is already there, so unchanged files aren't sent again
+    const existing = dryRun || releases.enabled ? new Map<string, string>() : await this.listObjects(s3Client, s3Config.bucket, releaseKeyPrefix)
+    const previous = previousKeyPrefix && previousRelease !== gitHash && !dryRun
+      ? await this.listObjects(s3Client, s3Config.bucket, previousKeyPrefix)
+      : new Map<string, string>()
+    
+    const uploadEngine = new UploadEngine(s3Client, s3Config.bucket, s3Config.upload, this.spinner)
+    const { compression } = webConfig
+    const sizes: WebSizeStats = { totalBytes: 0, compressedFiles: 0, savedBytes: 0 }
+    const publishedNames = new Set<string>()
+    // Files changed on the live path, for auto invalidation
+    const changedFiles: string[] = []
+    const dryRunRows: { file: string, headers: WebFileHeaders, note?: string }[] = []
+    let uploadedFiles = 0
+    let skippedFiles = 0
+    
+    // Upload in publish order so the index only lands after everything it references
+    for (const batch of this.publishBatches(files, webConfig)) {
+      const uploads: UploadTask[] = []
+      const copies: CopyTask[] = []
       
-      if (!dryRun) {
-        const fileContent = await fs.readFile(filePath)
-        const contentType = mime.lookup(file) || 'application/octet-stream'
-        const cacheControl = this.getCacheControl(file, webConfig)
+      await mapConcurrent(batch, s3Config.upload.concurrency, async file => {
+        const filePath = path.join(buildDir, file)
+        const normalizedFile = file.replace(/\\/g, '/') // Normalize path separators for S3
+        deployedFiles++
+        const fileHeaders = this.resolveHeaders(normalizedFile, webConfig)
         
-        const command = new PutObjectCommand({
-          Bucket: s3Config.bucket,
-          Key: s3Key,
-          Body: fileContent,
-          ContentType: contentType,
-          CacheControl: cacheControl,
-          Metadata: {
+        if (dryRun) {
+          const compressed = compression?.enabled && this.isCompressible(normalizedFile, compression)
+          dryRunRows.push({
+            file: normalizedFile,
+            headers: fileHeaders,
+            note: compressed ? `${compression.mode} ${compression.algorithms.join('/')}` : undefined
+          })
+          uploadedFiles++
+          return
+        }
+        
+        for (const object of await this.prepareObjects(normalizedFile, filePath, webConfig, sizes)) {
+          const s3Key = `${releaseKeyPrefix}${object.name}`
+          publishedNames.add(object.name)
+          const { md5, sha256 } = object.body ? this.hashBuffer(object.body) : await this.hashFile(filePath)
+          
+          const headers: ObjectHeaders = {
+            contentType: fileHeaders.contentType,
+            contentEncoding: object.contentEncoding,
+            cacheControl: fileHeaders.cacheControl,
+            contentDisposition: fileHeaders.contentDisposition
+          }
+          const headersHash = this.fingerprint({ ...headers, metadata: fileHeaders.metadata })
+          headers.metadata = {
+            ...fileHeaders.metadata,
             product: serviceInfo.product,
             service: serviceInfo.name,
-            deployedAt: new Date().toISOString()
+            deployedAt: new Date().toISOString(),
+            sha256,
+            headers: headersHash
+          }
+          
+          if (await this.isUnchanged(s3Client, s3Config.bucket, s3Key, existing.get(s3Key), md5, sha256, headersHash)) {
+            skippedFiles++
+            continue
+          }
+          
+          // A file carried over from the previous release is copied server-side, taking the current headers
+          const previousKey = previousKeyPrefix ? `${previousKeyPrefix}${object.name}` : undefined
+          if (previousKey && await this.isUnchanged(s3Client, s3Config.bucket, previousKey, previous.get(previousKey), md5, sha256)) {
+            copies.push({ sourceKey: previousKey, key: s3Key, headers })
+            skippedFiles++
+            continue
           }
+          
+          uploads.push({
+            key: s3Key,
+            filePath,
+            body: object.body,
+            ...headers
+          })
+          if (!releases.enabled) {
+            changedFiles.push(object.name)
+          }
+        }
+      })
+      
+      if (!dryRun) {
+        await uploadEngine.copyAll(copies, 'Reusing unchanged files')
+        uploadedFiles += (await uploadEngine.uploadAll(uploads, 'Uploading')).files
+      }
+    }
+    
+    // The manifest travels with the release, so switching releases switches the rules too
+    const { routing } = webConfig
+    if (routing?.mode === 'manifest') {
+      const manifestKey = `${releaseKeyPrefix}${routing.manifestKey}`
+      const body = Buffer.from(JSON.stringify(this.routingManifest(webConfig), null, 2))
+      publishedNames.add(routing.manifestKey)
+      
+      if (!dryRun && existing.get(manifestKey)?.replace(/"/g, '') !== this.hashBuffer(body).md5) {
+        await uploadEngine.uploadFile({
+          key: manifestKey,
+          filePath: '',
+          body,
+          contentType: 'application/json',
+          cacheControl: webConfig.cacheControl.html
         })
+        console.log(chalk.gray(`  🧭 Routing manifest written to ${manifestKey}`))
+        if (!releases.enabled) {
+          changedFiles.push(routing.manifestKey)
+        }
+      }
+    }
+    
+    if (dryRun) {
+      console.log(chalk.gray(`  📄 Would upload to ${releaseKeyPrefix || 'bucket root'}:`))
+      this.printHeaderTable(dryRunRows, webConfig)
+      if (routing) {
+        this.printRoutingRules(webConfig)
+      }
+    }
+    
+    console.log(chalk.green(`☁️  Uploaded ${uploadedFiles} files to S3, ${skippedFiles} unchanged`))
+    if (!dryRun) {
+      const savings = sizes.compressedFiles > 0
+        ? `, ${sizes.compressedFiles} files compressed saving ${this.formatBytes(sizes.savedBytes)} (${Math.round(sizes.savedBytes / sizes.totalBytes * 100)}%)`
+        : ''
+      console.log(chalk.gray(`📦 Build output: ${this.formatBytes(sizes.totalBytes)}${savings}`))
+    }
 
-        await s3Client.send(command)
-        deployedFiles++
+    // Step 3b: Switch the live path over to the new release
+    let prunedReleases: string[] = []
+    let deletedFiles = 0
+    
+    if (releases.enabled) {
+      if (!dryRun) {
+        const refreshHeaders = index.releases.find(release => release.gitHash === previousRelease)?.headers !== headerPolicy
+        const promoted = await this.promoteRelease(s3Client, s3Config, webConfig, gitHash, previousRelease, refreshHeaders)
+        deletedFiles += promoted.removedFiles
+        changedFiles.push(...promoted.changedFiles)
+        
+        // Promotion removes what the previous release had, which for a redeployed hash is the cleared upload
+        if (previousRelease === gitHash) {
+          const stale = leftoverFiles.filter(file => !publishedNames.has(file))
+          await this.deleteKeys(s3Client, s3Config.bucket, stale.map(file => `${livePrefix}${file}`))
+          deletedFiles += stale.length
+          changedFiles.push(...stale)
+        }
         
-        console.log(chalk.gray(`  ✅ ${s3Key} (${contentType})`))
+        index.current = gitHash
+        index.releases = [
+          { gitHash, createdAt: new Date().toISOString(), files: deployedFiles, headers: headerPolicy },
+          ...index.releases.filter(release => release.gitHash !== gitHash)
+        ]
+        await this.writeReleaseIndex(s3Client, s3Config, webConfig, index)
       } else {
-        console.log(chalk.gray(`  📄 Would upload: ${s3Key}`))
-        deployedFiles++
+        console.log(chalk.gray(`(Dry run: ${livePrefix || 'bucket root'} would switch to release ${gitHash}, keeping ${releases.retain} releases)`))
       }
     }
     
-    console.log(chalk.green(`☁️  Uploaded ${deployedFiles} files to S3`))
+    // S3 doesn't copy website redirect locations, so redirect objects go straight onto the live path
+    if (routing?.mode === 'metadata' && !dryRun) {
+      const redirects = await this.publishRedirects(s3Client, s3Config, webConfig, uploadEngine)
+      redirects.names.forEach(name => publishedNames.add(name))
+      changedFiles.push(...redirects.changed)
+    }
+    
+    // Step 3c: Remove live objects that are no longer part of the build, now that the new index is live
+    if (webConfig.prune) {
+      if (!livePrefix) {
+        console.log(chalk.yellow('⚠️  Skipping prune: it needs a dedicated web.path, not the bucket root'))
+      } else if (!dryRun) {
+        const keep = new Set([...publishedNames].map(name => `${livePrefix}${name}`))
+        const stale = [...(await this.listObjects(s3Client, s3Config.bucket, livePrefix)).keys()]
+          .filter(key => !keep.has(key))
+          .filter(key => !this.isReservedKey(key, webConfig))
+        
+        await this.deleteKeys(s3Client, s3Config.bucket, stale)
+        stale.forEach(key => console.log(chalk.gray(`  🗑️  ${key}`)))
+        changedFiles.push(...stale.map(key => key.substring(livePrefix.length)))
+        deletedFiles += stale.length
+        console.log(chalk.green(`🗑️  Pruned ${stale.length} stale files`))
+      } else {
+        console.log(chalk.gray(`(Dry run: objects under ${livePrefix} that are not in ${webConfig.buildDir} would be deleted)`))
+      }
+    }
 
     // Step 4: CloudFront invalidation
     let invalidationId: string | undefined
     
     if (webConfig.cloudfront?.distributionId) {
-      console.log(chalk.yellow(`🔄 Creating CloudFront invalidation...`))
-      
       if (!dryRun) {
-        try {
-          const command = new CreateInvalidationCommand({
-            DistributionId: webConfig.cloudfront.distributionId,
-            InvalidationBatch: {
-              Paths: {
-                Quantity: webConfig.cloudfront.paths.length,
-                Items: webConfig.cloudfront.paths
-              },
-              CallerReference: `heimdizzy-${serviceInfo.name}-${Date.now()}`
-            }
-          })
-
-          const result = await this.cloudfrontClient.send(command)
-          invalidationId = result.Invalidation?.Id
-          console.log(chalk.green(`🔄 CloudFront invalidation created: ${invalidationId}`))
-        } catch (error) {
-          console.log(chalk.yellow(`⚠️  CloudFront invalidation failed: ${error}`))
-        }
+        invalidationId = await this.invalidateCloudFront(serviceInfo, webConfig, changedFiles)
       } else {
-        console.log(chalk.gray('(Dry run: CloudFront invalidation would be created)'))
+        const { paths, waitForCompletion } = webConfig.cloudfront
+        console.log(chalk.yellow(`🔄 Creating CloudFront invalidation...`))
+        console.log(chalk.gray(`(Dry run: CloudFront invalidation would be created for ${paths === 'auto' ? 'the changed files' : paths.join(', ')}${waitForCompletion ? ' and awaited' : ''})`))
         invalidationId = 'dry-run-invalidation-id'
       }
     }
 
     // Step 5: Verification (if enabled)
-    if (webConfig.verification?.enabled !== false && !dryRun) {
+    const { verification } = webConfig
+    if (verification?.enabled !== false && !dryRun) {
       console.log(chalk.yellow(`🔍 Running deployment verification...`))
+      const failures: string[] = []
       
       // MinIO/S3 file count verification
-      if (webConfig.verification?.minioCheck?.enabled !== false) {
-        const minFiles = webConfig.verification?.minioCheck?.minFiles || 5
+      if (verification?.minioCheck?.enabled !== false) {
+        const minFiles = verification?.minioCheck?.minFiles || 5
         console.log(chalk.gray(`  Checking file count (minimum: ${minFiles})...`))
         
         if (deployedFiles < minFiles) {
-          throw new Error(`Verification failed: Only ${deployedFiles} files deployed, expected at least ${minFiles}`)
+          failures.push(`Only ${deployedFiles} files deployed, expected at least ${minFiles}`)
+        } else {
+          console.log(chalk.green(`  ✅ File count verified: ${deployedFiles} files`))
         }
-        console.log(chalk.green(`  ✅ File count verified: ${deployedFiles} files`))
       }
       
-      // HTTP endpoint verification (if configured)
-      if (webConfig.verification?.endpoints && webConfig.verification.endpoints.length > 0) {
-        console.log(chalk.gray(`  Checking ${webConfig.verification.endpoints.length} endpoints...`))
+      // HTTP verification against the served site
+      if (verification) {
+        failures.push(...await this.verifyHttp(verification, webConfig, buildDir))
+      }
+      
+      if (failures.length > 0) {
+        let message = `Verification failed: ${failures.join('; ')}`
+        let rolledBackTo: string | undefined
         
-        for (const endpoint of webConfig.verification.endpoints) {
+        if (releases.enabled && verification?.rollbackOnFailure !== false && previousRelease && previousRelease !== gitHash) {
+          console.log(chalk.yellow(`⏪ Verification failed, switching back to release ${previousRelease}`))
           try {
-            // For staging deployments on PLO cluster, we'll skip HTTP checks
-            // as they require complex port-forwarding or ingress setup
-            console.log(chalk.gray(`  ⏭️  Skipping HTTP check for ${endpoint.path} (requires cluster access)`))
-          } catch (error) {
-            console.log(chalk.yellow(`  ⚠️  Could not verify endpoint ${endpoint.path}: ${error}`))
+            await this.activateRelease(serviceInfo, s3Config, webConfig, previousRelease)
+            rolledBackTo = previousRelease
+            message += ` (rolled back to ${previousRelease})`
+          } catch (error: any) {
+            message += ` (rollback to ${previousRelease} failed: ${error.message})`
           }
         }
+        
+        // The CLI reports the rollback from rolledBackTo
+        throw Object.assign(new Error(message), { rolledBackTo })
       }
       
       console.log(chalk.green(`✅ Deployment verification completed`))
+    } else if (verification?.enabled !== false && verification?.baseUrl) {
+      console.log(chalk.gray(`(Dry run: ${verification.endpoints?.length ?? 0} endpoints${verification.assetHashes ? ' and the asset references' : ''} would be verified against ${verification.baseUrl})`))
+    }
+
+    // Old releases go only once this one has passed verification, so a rollback always has its target
+    if (releases.enabled && !dryRun) {
+      prunedReleases = await this.pruneReleases(s3Client, s3Config, webConfig, index)
+      if (prunedReleases.length > 0) {
+        await this.writeReleaseIndex(s3Client, s3Config, webConfig, index)
+      }
     }
 
     const deployTime = Date.now() - deployStartTime
@@ -201,7 +496,894 @@ export class WebDeploymentService {
       deployedFiles,
       invalidationId,
       buildTime,
-      deployTime
+      deployTime,
+      uploadedFiles,
+      skippedFiles,
+      deletedFiles,
+      totalBytes: dryRun ? undefined : sizes.totalBytes,
+      compressedFiles: sizes.compressedFiles > 0 ? sizes.compressedFiles : undefined,
+      compressionSavedBytes: sizes.compressedFiles > 0 ? sizes.savedBytes : undefined,
+      release: releases.enabled ? gitHash : undefined,
+      previousRelease,
+      prunedReleases: prunedReleases.length > 0 ? prunedReleases : undefined
+    }
+  }
+
+  /**
+   * Deploy the build for a branch under <preview.prefix>/<path>/<branch>/, outside the
+   * release flow. Previews are not invalidated on CloudFront and never roll back.
+   */
+  async deployPreview(
+    serviceInfo: ServiceInfo,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    branch: string,
+    gitHash: string,
+    dryRun = false
+  ): Promise<WebDeploymentResult> {
+    const name = this.sanitizeBranch(branch)
+    if (!name) {
+      throw new Error(`Branch name ${branch} leaves nothing to name the preview after`)
+    }
+    if (!webConfig.path) {
+      throw new Error('Previews need web.path, so that they are kept outside the served site')
+    }
+    
+    // feature/Foo and feature-foo share a name, and one must not overwrite or prune the other
+    const s3Client = this.createS3Client(s3Config)
+    const existing = await this.readPreview(s3Client, s3Config, webConfig, name)
+    if (existing && existing.branch !== branch) {
+      throw new Error(`Preview ${name} already belongs to branch ${existing.branch}; delete it or rename ${branch}`)
+    }
+    
+    const url = webConfig.preview.url?.replace(/\{branch\}/g, name)
+    const previewConfig: WebDeploymentConfig = {
+      ...webConfig,
+      path: `${this.previewsPrefix(webConfig)}/${name}`,
+      prune: true,
+      releases: { ...webConfig.releases, enabled: false },
+      cloudfront: undefined,
+      verification: webConfig.verification && {
+        ...webConfig.verification,
+        baseUrl: url,
+        rollbackOnFailure: false
+      }
+    }
+    
+    console.log(chalk.blue(`🔎 Preview of ${branch} → s3://${s3Config.bucket}/${previewConfig.path}/`))
+    
+    // Recorded up front so an interrupted upload is still found by preview prune
+    const preview: WebPreview = { branch, name, gitHash, url, deployedAt: new Date().toISOString() }
+    if (!dryRun) {
+      await this.writePreview(s3Client, s3Config, webConfig, preview)
+    }
+    
+    const result = await this.deploy(serviceInfo, s3Config, previewConfig, gitHash, dryRun)
+    
+    if (url) {
+      console.log(chalk.green(`🔎 Preview available at ${url}`))
+    } else {
+      console.log(chalk.gray('(Set web.preview.url to get a preview link)'))
+    }
+    
+    return { ...result, preview: name, previewUrl: url }
+  }
+
+  /**
+   * Previews of this site, most recently deployed first
+   */
+  async listPreviews(s3Config: S3Config, webConfig: WebDeploymentConfig): Promise<WebPreview[]> {
+    const s3Client = this.createS3Client(s3Config)
+    const prefix = `${this.previewsPrefix(webConfig)}/`
+    const previews: WebPreview[] = []
+    
+    let continuationToken: string | undefined
+    do {
+      // The delimiter keeps preview contents out of the listing, leaving only the markers
+      const page = await s3Client.send(new ListObjectsV2Command({
+        Bucket: s3Config.bucket,
+        Prefix: prefix,
+        Delimiter: '/',
+        ContinuationToken: continuationToken
+      }))
+      for (const object of (page.Contents || []).filter(object => object.Key!.endsWith('.json'))) {
+        const response = await s3Client.send(new GetObjectCommand({ Bucket: s3Config.bucket, Key: object.Key }))
+        previews.push(JSON.parse(await response.Body!.transformToString()))
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+    
+    return previews.sort((a, b) => b.deployedAt.localeCompare(a.deployedAt))
+  }
+
+  /**
+   * Delete previews whose branch is gone or that weren't redeployed within ttlDays.
+   * Without `branches` (e.g. no git remote), only the TTL applies.
+   */
+  async prunePreviews(
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    ttlDays: number,
+    branches?: string[],
+    dryRun = false
+  ): Promise<WebPreviewPrune[]> {
+    const s3Client = this.createS3Client(s3Config)
+    const cutoff = Date.now() - ttlDays * 24 * 60 * 60 * 1000
+    const liveBranches = branches && new Set(branches)
+    const pruned: WebPreviewPrune[] = []
+    
+    for (const preview of await this.listPreviews(s3Config, webConfig)) {
+      const reason = liveBranches && !liveBranches.has(preview.branch)
+        ? `branch ${preview.branch} no longer exists`
+        : new Date(preview.deployedAt).getTime() < cutoff
+          ? `not deployed since ${preview.deployedAt}`
+          : undefined
+      if (!reason) {
+        continue
+      }
+      
+      const previewKeyPrefix = `${this.previewsPrefix(webConfig)}/${preview.name}/`
+      if (!dryRun) {
+        const keys = [...(await this.listObjects(s3Client, s3Config.bucket, previewKeyPrefix)).keys()]
+        // Contents first, so a failure leaves the marker for the next prune
+        await this.deleteKeys(s3Client, s3Config.bucket, keys)
+        await this.deleteKeys(s3Client, s3Config.bucket, [this.previewKey(webConfig, preview.name)])
+      }
+      console.log(chalk.gray(`  🗑️  ${previewKeyPrefix} (${reason})`))
+      pruned.push({ preview, reason })
+    }
+    
+    return pruned
+  }
+
+  /**
+   * Retained releases, newest first, and the one currently live
+   */
+  async listReleases(s3Config: S3Config, webConfig: WebDeploymentConfig): Promise<WebReleaseIndex> {
+    return this.readReleaseIndex(this.createS3Client(s3Config), s3Config, webConfig)
+  }
+
+  /**
+   * Make a retained release live again, e.g. to roll back
+   */
+  async activateRelease(
+    serviceInfo: ServiceInfo,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    gitHash: string,
+    dryRun = false
+  ): Promise<WebReleaseActivation> {
+    const s3Client = this.createS3Client(s3Config)
+    const index = await this.readReleaseIndex(s3Client, s3Config, webConfig)
+    const release = index.releases.find(entry => entry.gitHash.startsWith(gitHash))
+    
+    if (!release) {
+      throw new Error(`Release ${gitHash} is not retained in s3://${s3Config.bucket}/${this.releasesPrefix(webConfig)}/`)
+    }
+    
+    console.log(chalk.blue(`🔀 Switching ${serviceInfo.name} to release ${release.gitHash}${index.current ? ` (was ${index.current})` : ''}`))
+    
+    if (dryRun) {
+      console.log(chalk.gray(`(Dry run: ${release.files} files would be made live from ${this.releasesPrefix(webConfig)}/${release.gitHash}/)`))
+      return {
+        release: release.gitHash,
+        previousRelease: index.current,
+        copiedFiles: 0,
+        removedFiles: 0
+      }
+    }
+    
+    const refreshHeaders = index.releases.find(entry => entry.gitHash === index.current)?.headers !== release.headers
+    const { copiedFiles, removedFiles, changedFiles } = await this.promoteRelease(s3Client, s3Config, webConfig, release.gitHash, index.current, refreshHeaders)
+    const previousRelease = index.current
+    index.current = release.gitHash
+    await this.writeReleaseIndex(s3Client, s3Config, webConfig, index)
+    
+    let invalidationId: string | undefined
+    if (webConfig.cloudfront?.distributionId) {
+      invalidationId = await this.invalidateCloudFront(serviceInfo, webConfig, changedFiles)
+    }
+    
+    return {
+      release: release.gitHash,
+      previousRelease,
+      copiedFiles,
+      removedFiles,
+      invalidationId
+    }
+  }
+
+  /**
+   * Restore the web prefix to the state it was in at `asOf` using S3 object versions.
+   * Objects created since then are removed, so the bucket needs versioning enabled.
+   */
+  async restoreAsOf(
+    serviceInfo: ServiceInfo,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    asOf: string,
+    dryRun = false
+  ): Promise<WebRestoreResult> {
+    const s3Client = this.createS3Client(s3Config)
+    const prefix = this.livePrefix(webConfig)
+    const cutoff = new Date(asOf).getTime()
+
+    // At the bucket root this would also rewind the history ledger, releases and build artifacts
+    if (!prefix) {
+      throw new Error('Web rollback from object versions needs a dedicated web.path, not the bucket root')
+    }
+
+    console.log(chalk.blue(`⏪ Restoring s3://${s3Config.bucket}/${prefix} to ${asOf}`))
+
+    const versioning = await s3Client.send(new GetBucketVersioningCommand({ Bucket: s3Config.bucket }))
+    if (versioning.Status !== 'Enabled') {
+      throw new Error(`Web rollback requires versioning on bucket ${s3Config.bucket}`)
+    }
+
+    // Collect every version and delete marker under the prefix, grouped by key
+    const history = new Map<string, { versionId?: string, lastModified: number, isLatest: boolean, deleted: boolean }[]>()
+    let keyMarker: string | undefined
+    let versionIdMarker: string | undefined
+    do {
+      const page = await s3Client.send(new ListObjectVersionsCommand({
+        Bucket: s3Config.bucket,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker
+      }))
+
+      const entries = [
+        ...(page.Versions || []).map(v => ({ ...v, deleted: false })),
+        ...(page.DeleteMarkers || []).map(m => ({ ...m, deleted: true }))
+      ]
+      for (const entry of entries.filter(entry => !this.isReservedKey(entry.Key!, webConfig))) {
+        const versions = history.get(entry.Key!) || []
+        versions.push({
+          versionId: entry.VersionId,
+          lastModified: entry.LastModified!.getTime(),
+          isLatest: Boolean(entry.IsLatest),
+          deleted: entry.deleted
+        })
+        history.set(entry.Key!, versions)
+      }
+
+      keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined
+      versionIdMarker = page.IsTruncated ? page.NextVersionIdMarker : undefined
+    } while (keyMarker)
+
+    let restoredFiles = 0
+    let removedFiles = 0
+    const changedFiles: string[] = []
+
+    for (const [key, versions] of history) {
+      const latest = versions.find(v => v.isLatest)
+      const atCutoff = versions
+        .filter(v => v.lastModified <= cutoff)
+        .sort((a, b) => b.lastModified - a.lastModified)[0]
+
+      if (atCutoff && !atCutoff.deleted) {
+        if (latest?.versionId === atCutoff.versionId) {
+          continue
+        }
+        if (!dryRun) {
+          await s3Client.send(new CopyObjectCommand({
+            Bucket: s3Config.bucket,
+            Key: key,
+            CopySource: this.copySource(s3Config.bucket, key, atCutoff.versionId),
+            MetadataDirective: 'COPY'
+          }))
+        }
+        restoredFiles++
+        changedFiles.push(key.substring(prefix.length))
+        console.log(chalk.gray(`  ⏪ ${key}`))
+      } else if (latest && !latest.deleted) {
+        // Didn't exist (or was deleted) at the cutoff
+        if (!dryRun) {
+          await s3Client.send(new DeleteObjectCommand({ Bucket: s3Config.bucket, Key: key }))
+        }
+        removedFiles++
+        changedFiles.push(key.substring(prefix.length))
+        console.log(chalk.gray(`  🗑️  ${key}`))
+      }
+    }
+
+    console.log(chalk.green(`⏪ Restored ${restoredFiles} files, removed ${removedFiles} files`))
+
+    let invalidationId: string | undefined
+    if (webConfig.cloudfront?.distributionId && !dryRun) {
+      invalidationId = await this.invalidateCloudFront(serviceInfo, webConfig, changedFiles)
+    }
+
+    return {
+      restoredFiles,
+      removedFiles,
+      invalidationId
+    }
+  }
+
+  /**
+   * Invalidate the configured paths, or in auto mode the changed files. With
+   * waitForCompletion this blocks until CloudFront reports the invalidation done.
+   */
+  private async invalidateCloudFront(
+    serviceInfo: ServiceInfo,
+    webConfig: WebDeploymentConfig,
+    changedFiles: string[] = []
+  ): Promise<string | undefined> {
+    const cloudfront = webConfig.cloudfront!
+    const paths = cloudfront.paths === 'auto'
+      ? this.invalidationPaths(changedFiles, webConfig)
+      : cloudfront.paths
+
+    if (paths.length === 0) {
+      console.log(chalk.gray('🔄 No files changed, skipping CloudFront invalidation'))
+      return undefined
+    }
+
+    console.log(chalk.yellow(`🔄 Creating CloudFront invalidation for ${paths.length > 5 ? `${paths.length} paths` : paths.join(', ')}...`))
+
+    let invalidationId: string | undefined
+    try {
+      const command = new CreateInvalidationCommand({
+        DistributionId: cloudfront.distributionId,
+        InvalidationBatch: {
+          Paths: {
+            Quantity: paths.length,
+            Items: paths
+          },
+          CallerReference: `heimdizzy-${serviceInfo.name}-${Date.now()}`
+        }
+      })
+
+      const result = await this.cloudfrontClient.send(command)
+      invalidationId = result.Invalidation?.Id
+      console.log(chalk.green(`🔄 CloudFront invalidation created: ${invalidationId}`))
+    } catch (error) {
+      // The release is already live, so a failure here is left to verification rather than failing the deploy
+      console.log(chalk.yellow(`⚠️  CloudFront invalidation failed: ${error}`))
+      return undefined
+    }
+
+    if (cloudfront.waitForCompletion && invalidationId) {
+      await this.waitForInvalidation(cloudfront.distributionId!, invalidationId, cloudfront.waitTimeout)
+    }
+
+    return invalidationId
+  }
+
+  private async waitForInvalidation(distributionId: string, invalidationId: string, timeoutSeconds: number): Promise<void> {
+    const pollInterval = 10000
+    const deadline = Date.now() + timeoutSeconds * 1000
+    const startTime = Date.now()
+    console.log(chalk.gray(`⏳ Waiting for invalidation ${invalidationId} to complete...`))
+
+    while (Date.now() < deadline) {
+      let status: string | undefined
+      try {
+        const { Invalidation } = await this.cloudfrontClient.send(new GetInvalidationCommand({
+          DistributionId: distributionId,
+          Id: invalidationId
+        }))
+        status = Invalidation?.Status
+      } catch (error: any) {
+        // Like a timeout: e.g. missing cloudfront:GetInvalidation shouldn't fail a release that is live
+        console.log(chalk.yellow(`⚠️  Could not check CloudFront invalidation ${invalidationId}: ${error.message}`))
+        return
+      }
+
+      if (status === 'Completed') {
+        console.log(chalk.green(`🔄 CloudFront invalidation completed in ${Math.round((Date.now() - startTime) / 1000)}s`))
+        return
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(pollInterval, Math.max(deadline - Date.now(), 0))))
+    }
+
+    // The release is already live, so carry on and let verification decide
+    console.log(chalk.yellow(`⚠️  CloudFront invalidation ${invalidationId} did not complete within ${timeoutSeconds}s`))
+  }
+
+  /**
+   * Invalidation paths for the changed files. Index files also invalidate their directory,
+   * which CloudFront caches separately. Falls back to /* beyond cloudfront.maxPaths.
+   */
+  private invalidationPaths(changedFiles: string[], webConfig: WebDeploymentConfig): string[] {
+    const indexName = path.posix.basename(webConfig.indexFile)
+    const paths = new Set<string>()
+
+    for (const file of changedFiles) {
+      const encoded = file.split('/').map(encodeURIComponent).join('/')
+      paths.add(`/${encoded}`)
+      if (path.posix.basename(file) === indexName) {
+        const directory = path.posix.dirname(encoded)
+        paths.add(directory === '.' ? '/' : `/${directory}/`)
+      }
+    }
+
+    if (paths.size > webConfig.cloudfront!.maxPaths) {
+      console.log(chalk.gray(`🔄 ${paths.size} changed paths exceed cloudfront.maxPaths (${webConfig.cloudfront!.maxPaths}), invalidating /*`))
+      return ['/*']
+    }
+    return [...paths]
+  }
+
+  /**
+   * Fetch the configured endpoints from the served site, retrying while the CDN still
+   * serves the old release. Returns what failed after the last attempt.
+   */
+  private async verifyHttp(
+    verification: NonNullable<WebDeploymentConfig['verification']>,
+    webConfig: WebDeploymentConfig,
+    buildDir: string
+  ): Promise<string[]> {
+    const endpoints = verification.endpoints || []
+    if (!verification.baseUrl) {
+      if (endpoints.length > 0 || verification.assetHashes) {
+        console.log(chalk.yellow('  ⚠️  Skipping HTTP checks: verification.baseUrl is not set'))
+      }
+      return []
+    }
+    
+    const failures: string[] = []
+    
+    for (const endpoint of endpoints) {
+      console.log(chalk.gray(`  Checking ${endpoint.path} (expecting ${endpoint.expectedStatus})...`))
+      const failure = await this.checkUrl(this.siteUrl(verification.baseUrl, endpoint.path), verification, (status, body) => {
+        if (status !== endpoint.expectedStatus) {
+          return `got ${status}, expected ${endpoint.expectedStatus}`
+        }
+        if (endpoint.contains && !body.includes(endpoint.contains)) {
+          return `response does not contain "${endpoint.contains}"`
+        }
+      })
+      
+      if (failure) {
+        failures.push(`${endpoint.path}: ${failure}`)
+      } else {
+        console.log(chalk.green(`  ✅ ${endpoint.path} verified`))
+      }
+    }
+    
+    if (verification.assetHashes) {
+      // Hashed asset names only match once the CDN serves the index file of this deploy
+      const builtIndex = await fs.readFile(path.join(buildDir, webConfig.indexFile), 'utf-8')
+      const references = this.assetReferences(builtIndex)
+      console.log(chalk.gray(`  Checking that ${webConfig.indexFile} references the ${references.length} deployed assets...`))
+      
+      const failure = await this.checkUrl(this.siteUrl(verification.baseUrl, ''), verification, (status, body) => {
+        if (status !== 200) {
+          return `got ${status}`
+        }
+        const missing = references.filter(reference => !body.includes(reference))
+        if (missing.length > 0) {
+          return `served index is missing ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? ` and ${missing.length - 3} more` : ''}`
+        }
+      })
+      
+      if (failure) {
+        failures.push(`${webConfig.indexFile}: ${failure}`)
+      } else {
+        console.log(chalk.green(`  ✅ Served ${webConfig.indexFile} references the deployed assets`))
+      }
+    }
+    
+    return failures
+  }
+
+  /**
+   * Fetch a URL until check passes or the attempts run out.
+   * check returns why a response is not acceptable yet.
+   */
+  private async checkUrl(
+    url: string,
+    verification: NonNullable<WebDeploymentConfig['verification']>,
+    check: (status: number, body: string) => string | undefined
+  ): Promise<string | undefined> {
+    let failure: string | undefined
+    
+    for (let attempt = 0; attempt <= verification.retries; attempt++) {
+      if (attempt > 0) {
+        console.log(chalk.gray(`    Attempt ${attempt}/${verification.retries + 1} failed (${failure}), retrying in ${verification.retryDelay}ms...`))
+        await new Promise(resolve => setTimeout(resolve, verification.retryDelay))
+      }
+      
+      try {
+        const response = await fetch(url, {
+          headers: { 'Cache-Control': 'no-cache' },
+          signal: AbortSignal.timeout(verification.timeout)
+        })
+        failure = check(response.status, await response.text())
+      } catch (error: any) {
+        failure = error.name === 'TimeoutError' ? `timed out after ${verification.timeout}ms` : error.message
+      }
+      
+      if (!failure) {
+        return undefined
+      }
+    }
+    
+    return failure
+  }
+
+  private siteUrl(baseUrl: string, urlPath: string): string {
+    return `${baseUrl.replace(/\/+$/, '')}/${urlPath.replace(/^\/+/, '')}`
+  }
+
+  /**
+   * Local files the HTML loads through src/href, e.g. /assets/app.3f9a1c.js
+   */
+  private assetReferences(html: string): string[] {
+    const references = [...html.matchAll(/\b(?:src|href)\s*=\s*["']([^"'?#]+)/gi)]
+      .map(match => match[1])
+      .filter(reference => !/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(reference))
+      .filter(reference => path.extname(reference) !== '' && path.extname(reference) !== '.html')
+    return [...new Set(references)]
+  }
+
+  private livePrefix(webConfig: WebDeploymentConfig): string {
+    return webConfig.path ? `${webConfig.path}/` : ''
+  }
+
+  /**
+   * Releases of this site, kept under their own bucket prefix rather than the served path
+   */
+  private releasesPrefix(webConfig: WebDeploymentConfig): string {
+    return `${webConfig.releases.prefix.replace(/\/+$/, '')}/${webConfig.path}`
+  }
+
+  /**
+   * Previews of this site, kept under their own bucket prefix rather than the served path
+   */
+  private previewsPrefix(webConfig: WebDeploymentConfig): string {
+    const prefix = webConfig.preview.prefix.replace(/\/+$/, '')
+    return webConfig.path ? `${prefix}/${webConfig.path}` : prefix
+  }
+
+  private previewKey(webConfig: WebDeploymentConfig, name: string): string {
+    return `${this.previewsPrefix(webConfig)}/${name}.json`
+  }
+
+  /**
+   * Previews are managed on their own, and share the live prefix when the site is served from the bucket root
+   */
+  private isReservedKey(key: string, webConfig: WebDeploymentConfig): boolean {
+    return key.startsWith(`${this.previewsPrefix(webConfig)}/`)
+  }
+
+  /**
+   * Lowercase DNS-label-safe name, so it also works as a preview subdomain
+   */
+  private sanitizeBranch(branch: string): string {
+    return branch
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 63)
+      .replace(/-+$/, '')
+  }
+
+  private async readPreview(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    name: string
+  ): Promise<WebPreview | undefined> {
+    try {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: s3Config.bucket,
+        Key: this.previewKey(webConfig, name)
+      }))
+      return JSON.parse(await response.Body!.transformToString())
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        return undefined
+      }
+      throw new Error(`Failed to read preview marker ${name}: ${error.message}`)
+    }
+  }
+
+  private async writePreview(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    preview: WebPreview
+  ): Promise<void> {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: s3Config.bucket,
+      Key: this.previewKey(webConfig, preview.name),
+      Body: JSON.stringify(preview, null, 2),
+      ContentType: 'application/json',
+      CacheControl: 'no-cache, no-store, must-revalidate'
+    }))
+  }
+
+  /**
+   * Copy a release onto the live path in publish order. Files that only the previous
+   * release had are removed afterwards. With refreshHeaders every file is copied, since
+   * live files with matching content may still carry the old headers.
+   */
+  private async promoteRelease(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    gitHash: string,
+    previousRelease?: string,
+    refreshHeaders = false
+  ): Promise<{ copiedFiles: number, removedFiles: number, changedFiles: string[] }> {
+    const releaseKeyPrefix = `${this.releasesPrefix(webConfig)}/${gitHash}/`
+    const livePrefix = this.livePrefix(webConfig)
+    
+    const releaseObjects = await this.listObjects(s3Client, s3Config.bucket, releaseKeyPrefix)
+    const files = [...releaseObjects.keys()].map(key => key.substring(releaseKeyPrefix.length))
+    
+    if (files.length === 0) {
+      throw new Error(`Release ${gitHash} has no files under s3://${s3Config.bucket}/${releaseKeyPrefix}`)
+    }
+    
+    console.log(chalk.yellow(`🔀 Switching ${livePrefix || 'bucket root'} to release ${gitHash}...`))
+    const liveObjects = await this.listObjects(s3Client, s3Config.bucket, livePrefix)
+    const uploadEngine = new UploadEngine(s3Client, s3Config.bucket, s3Config.upload, this.spinner)
+    const changedFiles: string[] = []
+    let copiedFiles = 0
+    for (const batch of this.publishBatches(files, webConfig)) {
+      // Copies keep the ETag for single-part objects, so live files that already match are left alone
+      const changed = batch
+        .filter(file => refreshHeaders || liveObjects.get(`${livePrefix}${file}`) !== releaseObjects.get(`${releaseKeyPrefix}${file}`))
+      const copies = changed.map(file => ({ sourceKey: `${releaseKeyPrefix}${file}`, key: `${livePrefix}${file}` }))
+      copiedFiles += await uploadEngine.copyAll(copies, 'Switching live files')
+      changedFiles.push(...changed)
+    }
+    
+    // Only files we know came from the previous release are removed, so anything
+    // else sharing the prefix is left alone
+    let removedFiles = 0
+    if (previousRelease && previousRelease !== gitHash) {
+      const previousKeyPrefix = `${this.releasesPrefix(webConfig)}/${previousRelease}/`
+      const current = new Set(files)
+      const stale = [...(await this.listObjects(s3Client, s3Config.bucket, previousKeyPrefix)).keys()]
+        .map(key => key.substring(previousKeyPrefix.length))
+        .filter(file => !current.has(file))
+      
+      await this.deleteKeys(s3Client, s3Config.bucket, stale.map(file => `${livePrefix}${file}`))
+      removedFiles = stale.length
+      changedFiles.push(...stale)
+    }
+    
+    console.log(chalk.green(`🔀 Release ${gitHash} is live (${copiedFiles} of ${files.length} files changed${removedFiles ? `, ${removedFiles} stale files removed` : ''})`))
+    return { copiedFiles, removedFiles, changedFiles }
+  }
+
+  /**
+   * Drop releases beyond the retention count, never the live one
+   */
+  private async pruneReleases(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    index: WebReleaseIndex
+  ): Promise<string[]> {
+    const expired = index.releases
+      .slice(webConfig.releases.retain)
+      .filter(release => release.gitHash !== index.current)
+    
+    for (const release of expired) {
+      const keys = [...(await this.listObjects(s3Client, s3Config.bucket, `${this.releasesPrefix(webConfig)}/${release.gitHash}/`)).keys()]
+      await this.deleteKeys(s3Client, s3Config.bucket, keys)
+      console.log(chalk.gray(`  🗑️  Pruned release ${release.gitHash} (${keys.length} files)`))
+    }
+    
+    const expiredHashes = expired.map(release => release.gitHash)
+    index.releases = index.releases.filter(release => !expiredHashes.includes(release.gitHash))
+    return expiredHashes
+  }
+
+  private async readReleaseIndex(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig
+  ): Promise<WebReleaseIndex> {
+    try {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: s3Config.bucket,
+        Key: `${this.releasesPrefix(webConfig)}/index.json`
+      }))
+      return JSON.parse(await response.Body!.transformToString())
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        return { releases: [] }
+      }
+      throw new Error(`Failed to read release index: ${error.message}`)
+    }
+  }
+
+  private async writeReleaseIndex(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    index: WebReleaseIndex
+  ): Promise<void> {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: s3Config.bucket,
+      Key: `${this.releasesPrefix(webConfig)}/index.json`,
+      Body: JSON.stringify(index, null, 2),
+      ContentType: 'application/json',
+      CacheControl: 'no-cache, no-store, must-revalidate'
+    }))
+  }
+
+  private copySource(bucket: string, key: string, versionId?: string): string {
+    // Encode each segment but keep the slashes, which every S3 implementation accepts
+    const source = `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`
+    return versionId ? `${source}?versionId=${versionId}` : source
+  }
+
+  /**
+   * Keys under a prefix mapped to their ETags
+   */
+  private async listObjects(s3Client: S3Client, bucket: string, prefix: string): Promise<Map<string, string>> {
+    const objects = new Map<string, string>()
+    let continuationToken: string | undefined
+    do {
+      const page = await s3Client.send(new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }))
+      for (const object of page.Contents || []) {
+        objects.set(object.Key!, object.ETag || '')
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+    return objects
+  }
+
+  /**
+   * Single-part ETags are the content MD5. Multipart ETags aren't, so fall back to
+   * the sha256 we store in the object metadata. With headersHash the stored header
+   * fingerprint has to match too.
+   */
+  private async isUnchanged(
+    s3Client: S3Client,
+    bucket: string,
+    key: string,
+    etag: string | undefined,
+    md5: string,
+    sha256: string,
+    headersHash?: string
+  ): Promise<boolean> {
+    if (!etag) {
+      return false
+    }
+    
+    const normalizedEtag = etag.replace(/"/g, '')
+    const multipart = normalizedEtag.includes('-')
+    if (normalizedEtag !== md5 && !multipart) {
+      return false
+    }
+    if (normalizedEtag === md5 && !headersHash) {
+      return true
+    }
+    
+    const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+    return (!multipart || head.Metadata?.sha256 === sha256) &&
+      (!headersHash || head.Metadata?.headers === headersHash)
+  }
+
+  /**
+   * Assets first, then HTML, then the index file, so pages never reference assets that
+   * aren't there yet. Each batch finishes before the next one starts.
+   */
+  private publishBatches(files: string[], webConfig: WebDeploymentConfig): string[][] {
+    const isIndex = (file: string) => file.replace(/\\/g, '/') === webConfig.indexFile
+    return [
+      files.filter(file => !file.endsWith('.html') && !isIndex(file)),
+      files.filter(file => file.endsWith('.html') && !isIndex(file)),
+      files.filter(isIndex)
+    ].filter(batch => batch.length > 0)
+  }
+
+  /**
+   * The objects to publish for one build file: the file itself, compressed in place, or
+   * with .br/.gz sidecars. Compression that doesn't save at least minSavings is dropped.
+   */
+  private async prepareObjects(
+    name: string,
+    filePath: string,
+    webConfig: WebDeploymentConfig,
+    sizes: WebSizeStats
+  ): Promise<WebObject[]> {
+    const { compression } = webConfig
+    const size = (await fs.stat(filePath)).size
+    sizes.totalBytes += size
+    
+    if (!compression?.enabled || !this.isCompressible(name, compression) || size < compression.minSize) {
+      return [{ name }]
+    }
+    
+    const content = await fs.readFile(filePath)
+    const variants: { algorithm: CompressionAlgorithm, body: Buffer }[] = []
+    for (const algorithm of compression.algorithms) {
+      const body = await this.compress(content, algorithm)
+      if (size - body.length >= size * compression.minSavings) {
+        variants.push({ algorithm, body })
+      }
+    }
+    
+    if (variants.length === 0) {
+      return [{ name }]
+    }
+    
+    sizes.compressedFiles++
+    
+    if (compression.mode === 'inline') {
+      // Only one encoding can be served from the original key, so the first configured one wins
+      const [variant] = variants
+      sizes.savedBytes += size - variant.body.length
+      return [{ name, body: variant.body, contentEncoding: variant.algorithm }]
+    }
+    
+    sizes.savedBytes += size - Math.min(...variants.map(variant => variant.body.length))
+    return [
+      { name },
+      ...variants.map(variant => ({
+        name: `${name}${SIDECAR_SUFFIXES[variant.algorithm]}`,
+        body: variant.body,
+        contentEncoding: variant.algorithm
+      }))
+    ]
+  }
+
+  private isCompressible(name: string, compression: NonNullable<WebDeploymentConfig['compression']>): boolean {
+    return compression.extensions.includes(path.extname(name).toLowerCase())
+  }
+
+  private async compress(content: Buffer, algorithm: CompressionAlgorithm): Promise<Buffer> {
+    if (algorithm === 'br') {
+      return brotliCompress(content, {
+        params: {
+          [zlibConstants.BROTLI_PARAM_MODE]: zlibConstants.BROTLI_MODE_TEXT,
+          [zlibConstants.BROTLI_PARAM_QUALITY]: zlibConstants.BROTLI_MAX_QUALITY,
+          [zlibConstants.BROTLI_PARAM_SIZE_HINT]: content.length
+        }
+      })
+    }
+    // zlib leaves the gzip mtime at zero, so the output is stable and incremental uploads still match
+    return gzip(content, { level: zlibConstants.Z_BEST_COMPRESSION })
+  }
+
+  private hashBuffer(content: Buffer): { md5: string, sha256: string } {
+    return {
+      md5: createHash('md5').update(content).digest('hex'),
+      sha256: createHash('sha256').update(content).digest('hex')
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    const sizes = ['Bytes', 'KB', 'MB', 'GB']
+    if (bytes === 0) return '0 Bytes'
+    const i = Math.floor(Math.log(bytes) / Math.log(1024))
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
+  }
+
+  private async hashFile(filePath: string): Promise<{ md5: string, sha256: string }> {
+    const md5 = createHash('md5')
+    const sha256 = createHash('sha256')
+    for await (const chunk of createReadStream(filePath)) {
+      md5.update(chunk)
+      sha256.update(chunk)
+    }
+    return { md5: md5.digest('hex'), sha256: sha256.digest('hex') }
+  }
+
+  private async deleteKeys(s3Client: S3Client, bucket: string, keys: string[]): Promise<void> {
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      await s3Client.send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: {
+          Objects: keys.slice(i, i + 1000).map(key => ({ Key: key })),
+          Quiet: true
+        }
+      }))
     }
   }
 
@@ -227,6 +1409,181 @@ export class WebDeploymentService {
     return new S3Client(clientConfig)
   }
 
+  private routingManifest(webConfig: WebDeploymentConfig): WebRoutingManifest {
+    const routing = webConfig.routing!
+    return {
+      version: 1,
+      indexFile: webConfig.indexFile,
+      spaFallback: routing.spaFallback,
+      redirects: routing.redirects
+    }
+  }
+
+  /**
+   * Reject rules the chosen mode can't express before anything is uploaded
+   */
+  private validateRouting(webConfig: WebDeploymentConfig, files: string[]): void {
+    const routing = webConfig.routing!
+    const reserved = new Set(files.map(file => file.replace(/\\/g, '/')))
+    
+    if (routing.mode === 'manifest') {
+      if (reserved.has(routing.manifestKey)) {
+        throw new Error(`routing.manifestKey ${routing.manifestKey} collides with a file in ${webConfig.buildDir}`)
+      }
+      return
+    }
+    
+    for (const redirect of routing.redirects) {
+      if (redirect.from.includes('*')) {
+        throw new Error(`Redirect from ${redirect.from}: wildcards need routing.mode manifest`)
+      }
+      if (reserved.has(this.redirectObjectName(redirect, webConfig))) {
+        throw new Error(`Redirect from ${redirect.from} collides with a file in ${webConfig.buildDir}`)
+      }
+      if (redirect.status !== 301) {
+        console.log(chalk.yellow(`⚠️  Redirect from ${redirect.from} will be served as 301: S3 website redirects can't use ${redirect.status}`))
+      }
+    }
+    if (routing.spaFallback) {
+      console.log(chalk.yellow(`⚠️  routing.spaFallback needs the bucket's website ErrorDocument or a CloudFront error response pointing at ${webConfig.indexFile} in metadata mode`))
+    }
+  }
+
+  /**
+   * Write one empty object per redirect, carrying x-amz-website-redirect-location.
+   * Objects that already point at the right target are left alone.
+   */
+  private async publishRedirects(
+    s3Client: S3Client,
+    s3Config: S3Config,
+    webConfig: WebDeploymentConfig,
+    uploadEngine: UploadEngine
+  ): Promise<{ names: string[], changed: string[] }> {
+    const livePrefix = this.livePrefix(webConfig)
+    const names: string[] = []
+    const changed: string[] = []
+    
+    for (const redirect of webConfig.routing!.redirects) {
+      const name = this.redirectObjectName(redirect, webConfig)
+      const key = `${livePrefix}${name}`
+      names.push(name)
+      
+      const current = await s3Client.send(new HeadObjectCommand({ Bucket: s3Config.bucket, Key: key }))
+        .then(head => head.WebsiteRedirectLocation)
+        .catch(() => undefined)
+      if (current === redirect.to) {
+        continue
+      }
+      
+      await uploadEngine.uploadFile({
+        key,
+        filePath: '',
+        body: Buffer.alloc(0),
+        contentType: 'text/html',
+        cacheControl: webConfig.cacheControl.html,
+        websiteRedirectLocation: redirect.to
+      })
+      changed.push(name)
+    }
+    
+    console.log(chalk.green(`🧭 ${names.length} redirects published${changed.length < names.length ? ` (${names.length - changed.length} unchanged)` : ''}`))
+    return { names, changed }
+  }
+
+  private redirectObjectName(redirect: WebRedirectRule, webConfig: WebDeploymentConfig): string {
+    const name = redirect.from.substring(1)
+    // S3 website endpoints serve directory paths from their index document
+    return name === '' || name.endsWith('/') ? `${name}${path.posix.basename(webConfig.indexFile)}` : name
+  }
+
+  private printRoutingRules(webConfig: WebDeploymentConfig): void {
+    const routing = webConfig.routing!
+    const appliedAs = routing.mode === 'manifest'
+      ? `manifest ${this.livePrefix(webConfig)}${routing.manifestKey}`
+      : 'S3 website redirect objects'
+    console.log(chalk.gray(`  🧭 Routing (${appliedAs}):`))
+    
+    if (routing.spaFallback) {
+      console.log(chalk.gray(`    SPA fallback: unmatched paths serve /${webConfig.indexFile}${routing.mode === 'metadata' ? ' (set up outside heimdizzy in metadata mode)' : ''}`))
+    }
+    if (routing.redirects.length === 0) {
+      return
+    }
+    
+    const columns = ['From', 'To', 'Status']
+    const table = routing.redirects.map(redirect => [
+      redirect.from,
+      redirect.to,
+      String(routing.mode === 'metadata' ? 301 : redirect.status)
+    ])
+    const widths = columns.map((column, i) => Math.max(column.length, ...table.map(row => row[i].length)))
+    const format = (row: string[]) => `    ${row.map((cell, i) => cell.padEnd(widths[i])).join('  ')}`.trimEnd()
+    
+    console.log(chalk.gray(format(columns)))
+    table.forEach(row => console.log(chalk.gray(format(row))))
+  }
+
+  /**
+   * Headers for a build file: the first matching rule wins, and whatever it leaves
+   * unset falls back to the extension's type and the html/assets cache control
+   */
+  private resolveHeaders(file: string, webConfig: WebDeploymentConfig): WebFileHeaders {
+    const ruleIndex = webConfig.headers.findIndex(rule => this.matchesRule(file, rule))
+    const rule = ruleIndex >= 0 ? webConfig.headers[ruleIndex] : undefined
+    
+    return {
+      rule: rule ? ruleIndex : undefined,
+      contentType: rule?.contentType || mime.lookup(file) || 'application/octet-stream',
+      cacheControl: rule?.cacheControl || this.getCacheControl(file, webConfig),
+      contentDisposition: rule?.contentDisposition,
+      // The SDK adds the x-amz-meta- prefix itself
+      metadata: rule?.metadata && Object.fromEntries(
+        Object.entries(rule.metadata).map(([key, value]) => [key.replace(/^x-amz-meta-/i, ''), value])
+      )
+    }
+  }
+
+  private matchesRule(file: string, rule: WebHeaderRule): boolean {
+    // A leading slash anchors the pattern to the build root, otherwise bare names like sw.js match in any directory
+    const anchored = rule.match.startsWith('/')
+    return minimatch(file, anchored ? rule.match.substring(1) : rule.match, { dot: true, matchBase: !anchored })
+  }
+
+  /**
+   * Fingerprint of everything that decides object headers, recorded per release
+   */
+  private headerPolicy(webConfig: WebDeploymentConfig): string {
+    const { indexFile, cacheControl, headers } = webConfig
+    return this.fingerprint({ indexFile, cacheControl, headers })
+  }
+
+  private fingerprint(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex').substring(0, 16)
+  }
+
+  private printHeaderTable(
+    rows: { file: string, headers: WebFileHeaders, note?: string }[],
+    webConfig: WebDeploymentConfig
+  ): void {
+    const columns = ['File', 'Rule', 'Content-Type', 'Cache-Control', 'Other']
+    const table = rows.map(({ file, headers, note }) => [
+      file,
+      headers.rule === undefined ? 'default' : `#${headers.rule + 1} ${webConfig.headers[headers.rule].match}`,
+      headers.contentType,
+      headers.cacheControl,
+      [
+        headers.contentDisposition && `disposition: ${headers.contentDisposition}`,
+        ...Object.entries(headers.metadata || {}).map(([key, value]) => `x-amz-meta-${key}: ${value}`),
+        note
+      ].filter(Boolean).join(', ')
+    ])
+    const widths = columns.map((column, i) => Math.max(column.length, ...table.map(row => row[i].length)))
+    const format = (row: string[]) => `    ${row.map((cell, i) => cell.padEnd(widths[i])).join('  ')}`.trimEnd()
+    
+    console.log(chalk.gray(format(columns)))
+    table.forEach(row => console.log(chalk.gray(format(row))))
+  }
+
   private getCacheControl(fileName: string, webConfig: WebDeploymentConfig): string {
     // HTML files should not be cached
     if (fileName.endsWith('.html') || fileName === webConfig.indexFile) {
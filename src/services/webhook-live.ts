@@ -0,0 +1,99 @@
+import type { WebhookEvent, WebhookPayload } from './webhook.js'
+import { mergeFields, type NotificationMessage } from './webhook-providers.js'
+
+type StepState = 'running' | 'done' | 'skipped' | 'failed'
+
+interface Step {
+  state: StepState
+  message: NotificationMessage
+}
+
+interface LiveEvent {
+  payload: WebhookPayload
+  message: NotificationMessage
+}
+
+// Events that move an existing checklist line along; the rest get a line of their own
+const STEP_EVENTS: Partial<Record<WebhookEvent, [string, StepState]>> = {
+  deployStart: ['deploy', 'running'],
+  deploySuccess: ['deploy', 'done'],
+  deployError: ['deploy', 'failed'],
+  buildStart: ['build', 'running'],
+  buildSuccess: ['build', 'done'],
+  buildSkipped: ['build', 'skipped'],
+  uploadStart: ['upload', 'running'],
+  uploadSuccess: ['upload', 'done'],
+  uploadSkipped: ['upload', 'skipped'],
+  podsRestarting: ['pods', 'running'],
+  podsReady: ['pods', 'done'],
+  webDeploying: ['web', 'running'],
+  webDeployed: ['web', 'done'],
+  rollbackStart: ['rollback', 'running'],
+  rollbackSuccess: ['rollback', 'done'],
+  rollbackError: ['rollback', 'failed']
+}
+
+const FINAL_EVENTS: WebhookEvent[] = ['deploySuccess', 'deployError', 'rollbackSuccess', 'rollbackError']
+
+const STATE_ICONS: Record<StepState, string> = {
+  running: '⏳',
+  done: '✅',
+  skipped: '⏭️',
+  failed: '❌'
+}
+
+/**
+ * The one message a live target keeps for a run: a checklist with a line per step, edited as
+ * events arrive. It takes the colour and title of the outcome once the run has finished.
+ */
+export class LiveMessage {
+  // Provider reference to the posted message, set once it exists
+  ref?: string
+  private first?: LiveEvent
+  private outcome?: LiveEvent
+  private steps = new Map<string, Step>()
+  private messages: NotificationMessage[] = []
+
+  get finished(): boolean {
+    return this.outcome !== undefined
+  }
+
+  add(payload: WebhookPayload, message: NotificationMessage): void {
+    this.first ??= { payload, message }
+    this.messages.push(message)
+
+    const [stage, state] = STEP_EVENTS[payload.event] ?? [payload.event, 'done']
+    const final = FINAL_EVENTS.includes(payload.event)
+    // The outcome goes at the bottom rather than back on the line that started the run
+    if (final) this.steps.delete(stage)
+    this.steps.set(stage, { state, message })
+
+    if (final) {
+      // A failed deploy stays a failure even when the automatic rollback after it succeeds
+      if (this.outcome?.payload.event !== 'deployError' || state === 'failed') {
+        this.outcome = { payload, message }
+      }
+      // Steps that were still running when the run ended went the same way as the run
+      const failed = [...this.steps.values()].some(step => step.state === 'failed')
+      for (const step of this.steps.values()) {
+        if (step.state === 'running') step.state = failed ? 'failed' : 'done'
+      }
+    }
+  }
+
+  render(): LiveEvent {
+    if (!this.first) {
+      throw new Error('Live message has no events yet')
+    }
+
+    const header = this.outcome ?? this.first
+    return {
+      payload: header.payload,
+      message: {
+        title: header.message.title,
+        text: [...this.steps.values()].map(step => `${STATE_ICONS[step.state]} ${step.message.text}`).join('\n'),
+        fields: mergeFields(this.messages)
+      }
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import { randomUUID } from 'crypto'
+import type { NotificationTarget } from '../config/schema.js'
+import type { WebhookEvent, WebhookPayload } from './webhook.js'
+
+export interface WebhookRequest {
+  body: unknown
+  headers?: Record<string, string>
+  // Default to a POST to the target's URL
+  url?: string
+  method?: string
+}
+
+export interface NotificationField {
+  name: string
+  value: string
+  inline: boolean
+}
+
+// What a chat provider shows, before it is shaped into the provider's format
+export interface NotificationMessage {
+  title: string
+  text: string
+  fields: NotificationField[]
+}
+
+interface EventStyle {
+  color: number
+  icon: string
+  title: string
+  // Adaptive Card container style
+  tone: 'good' | 'attention' | 'warning' | 'accent' | 'default'
+}
+
+const EVENT_STYLES: Record<WebhookEvent, EventStyle> = {
+  deployStart: { color: 0x3498db, icon: '🚀', title: 'Deployment Started', tone: 'accent' },
+  deploySuccess: { color: 0x2ecc71, icon: '✅', title: 'Deployment Completed', tone: 'good' },
+  deployError: { color: 0xe74c3c, icon: '❌', title: 'Deployment Failed', tone: 'attention' },
+  buildStart: { color: 0x9b59b6, icon: '🔨', title: 'Build Started', tone: 'accent' },
+  buildSuccess: { color: 0x2ecc71, icon: '✅', title: 'Build Completed', tone: 'good' },
+  buildSkipped: { color: 0xf39c12, icon: '⏭️', title: 'Build Skipped', tone: 'warning' },
+  uploadStart: { color: 0x3498db, icon: '📤', title: 'Upload Started', tone: 'accent' },
+  uploadSuccess: { color: 0x2ecc71, icon: '✅', title: 'Upload Completed', tone: 'good' },
+  uploadSkipped: { color: 0xf39c12, icon: '⏭️', title: 'Upload Skipped', tone: 'warning' },
+  podsRestarting: { color: 0x3498db, icon: '🔄', title: 'Restarting Pods', tone: 'accent' },
+  podsReady: { color: 0x2ecc71, icon: '✅', title: 'Pods Ready', tone: 'good' },
+  webDeploying: { color: 0x3498db, icon: '🌐', title: 'Deploying Web Assets', tone: 'accent' },
+  webDeployed: { color: 0x2ecc71, icon: '🌐', title: 'Web Assets Deployed', tone: 'good' },
+  manifestUpdated: { color: 0x2ecc71, icon: '📝', title: 'GitOps Manifest Updated', tone: 'good' },
+  packagePublished: { color: 0x2ecc71, icon: '📦', title: 'Package Published', tone: 'good' },
+  imagePublished: { color: 0x2ecc71, icon: '🐳', title: 'Image Published', tone: 'good' },
+  lambdaDeployed: { color: 0x2ecc71, icon: 'λ', title: 'Lambda Deployed', tone: 'good' },
+  rollbackStart: { color: 0xe67e22, icon: '⏪', title: 'Rollback Started', tone: 'warning' },
+  rollbackSuccess: { color: 0x2ecc71, icon: '⏪', title: 'Rollback Completed', tone: 'good' },
+  rollbackError: { color: 0xe74c3c, icon: '❌', title: 'Rollback Failed', tone: 'attention' },
+  cleanup: { color: 0x95a5a6, icon: '🧹', title: 'Cleanup Completed', tone: 'default' },
+  dryRun: { color: 0xe67e22, icon: '🧪', title: 'Dry Run Mode', tone: 'warning' }
+}
+
+const DEFAULT_STYLE: EventStyle = { color: 0x95a5a6, icon: '📝', title: 'Notification', tone: 'default' }
+const FOOTER = 'Heimdizzy Deployment Tool'
+
+function eventStyle(event: WebhookEvent): EventStyle {
+  return EVENT_STYLES[event] || DEFAULT_STYLE
+}
+
+/**
+ * The built-in title, text and fields for an event, used wherever no template overrides them
+ */
+export function defaultMessage(payload: WebhookPayload): NotificationMessage {
+  const style = eventStyle(payload.event)
+  return {
+    title: `${style.icon} ${style.title}`,
+    text: payload.message,
+    fields: detailFields(payload)
+  }
+}
+
+/**
+ * The latest value of every field across several messages, in order of first appearance
+ */
+export function mergeFields(messages: NotificationMessage[]): NotificationField[] {
+  const fields = new Map<string, NotificationField>()
+  for (const message of messages) {
+    for (const field of message.fields) {
+      fields.set(field.name, field)
+    }
+  }
+  return [...fields.values()]
+}
+
+/**
+ * The fields shown by every chat provider, in display order. Values use Markdown code spans.
+ */
+function detailFields(payload: WebhookPayload): NotificationField[] {
+  const details = payload.details
+  const fields: NotificationField[] = [
+    { name: 'Product', value: payload.product, inline: true },
+    { name: 'Service', value: payload.service, inline: true },
+    { name: 'Environment', value: payload.environment, inline: true }
+  ]
+  const add = (name: string, value: string, inline: boolean = true) => fields.push({ name, value, inline })
+
+  if (details?.gitHash) add('Git Hash', `\`${details.gitHash}\``)
+  if (details?.previousGitHash) add('Rolled Back From', `\`${details.previousGitHash}\``)
+  if (details?.duration) add('Duration', `${Math.round(details.duration / 1000)}s`)
+  if (details?.size) add('Size', details.size)
+  if (details?.artifactPath) add('Artifact', `\`${details.artifactPath}\``, false)
+  if (details?.count !== undefined) add('Pod Count', details.count.toString())
+  if (details?.podStatus) add('Pod Status', details.podStatus, false)
+  if (details?.imageName) add('Image', `\`${details.imageName}\``, false)
+  if (details?.namespace) add('Namespace', details.namespace)
+  if (details?.commitHash) add('Manifest Commit', `\`${details.commitHash.substring(0, 12)}\``)
+  if (details?.prUrl) add('Pull Request', details.prUrl, false)
+  if (details?.functionName) {
+    add('Function', details.alias
+      ? `\`${details.functionName}:${details.alias}\` → v${details.version}`
+      : `\`${details.functionName}\` v${details.version}`, false)
+  }
+  if (details?.packageName) add('Package', `\`${details.packageName}@${details.version}\``)
+  if (details?.distTag) add('Dist Tag', details.distTag)
+  if (details?.integrity) add('Integrity', `\`${details.integrity}\``, false)
+  if (details?.tags?.length) add('Tags', details.tags.map(tag => `\`${tag}\``).join(', '), false)
+  if (details?.digest) add('Digest', `\`${details.digest}\``, false)
+  if (details?.filesDeployed !== undefined) add('Files Deployed', details.filesDeployed.toString())
+  if (details?.filesUploaded !== undefined) {
+    add('Changes', `${details.filesUploaded} uploaded, ${details.filesSkipped ?? 0} unchanged, ${details.filesDeleted ?? 0} deleted`)
+  }
+  if (details?.filesRestored !== undefined) {
+    add('Files Restored', `${details.filesRestored} restored, ${details.filesRemoved ?? 0} removed`)
+  }
+  if (details?.invalidationId) add('CloudFront Invalidation', `\`${details.invalidationId}\``)
+  if (details?.previewUrl) add('Preview', details.previewUrl, false)
+  if (details?.release) add('Release', `\`${details.release}\``)
+  if (details?.buildTime !== undefined) add('Build Time', `${Math.round(details.buildTime / 1000)}s`)
+  if (details?.deployTime !== undefined) add('Deploy Time', `${Math.round(details.deployTime / 1000)}s`)
+  if (details?.error) add('Error', `\`\`\`${details.error.substring(0, 1000)}\`\`\``, false)
+
+  return fields
+}
+
+/**
+ * Formats payloads for one kind of incoming webhook and reads its rate limit responses
+ */
+export abstract class WebhookProvider {
+  constructor(protected target: NotificationTarget) {}
+
+  abstract format(payload: WebhookPayload, message: NotificationMessage): WebhookRequest
+
+  /**
+   * Live mode: the request that posts the run's message, or replaces it once `ref` is known
+   */
+  formatLive(payload: WebhookPayload, message: NotificationMessage, ref?: string): WebhookRequest {
+    throw new Error(`${this.target.provider} targets can't edit messages`)
+  }
+
+  /**
+   * Live mode: the reference to the posted message, from a successful response
+   */
+  async liveReference(response: Response): Promise<string | undefined> {
+    return undefined
+  }
+
+  /**
+   * Milliseconds to back off after a 429, or undefined when the response doesn't say
+   */
+  retryAfter(response: Response): number | undefined {
+    const header = response.headers.get('Retry-After')
+    if (!header) return undefined
+
+    const seconds = Number(header)
+    if (!isNaN(seconds)) return seconds * 1000
+
+    // Retry-After may also be an HTTP date
+    const date = Date.parse(header)
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+  }
+}
+
+export class DiscordProvider extends WebhookProvider {
+  format(payload: WebhookPayload, message: NotificationMessage): WebhookRequest {
+    const style = eventStyle(payload.event)
+    return {
+      body: {
+        embeds: [{
+          title: message.title,
+          description: message.text,
+          color: style.color,
+          fields: message.fields,
+          timestamp: payload.timestamp,
+          footer: { text: FOOTER }
+        }]
+      }
+    }
+  }
+
+  formatLive(payload: WebhookPayload, message: NotificationMessage, ref?: string): WebhookRequest {
+    // Parsed so that query parameters such as thread_id are kept
+    const url = new URL(this.target.url!)
+    if (ref) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/messages/${ref}`
+      return { ...this.format(payload, message), url: url.toString(), method: 'PATCH' }
+    }
+    // Without wait=true Discord answers 204 and the message id is never known
+    url.searchParams.set('wait', 'true')
+    return { ...this.format(payload, message), url: url.toString() }
+  }
+
+  async liveReference(response: Response): Promise<string | undefined> {
+    const body: any = await response.json()
+    return body.id
+  }
+
+  retryAfter(response: Response): number | undefined {
+    // Discord reports fractional seconds in its own header
+    const resetAfter = response.headers.get('X-RateLimit-Reset-After')
+    return resetAfter ? parseFloat(resetAfter) * 1000 : super.retryAfter(response)
+  }
+}
+
+// Slack allows at most 10 fields per section block
+const SLACK_SECTION_FIELDS = 10
+const SLACK_API = 'https://slack.com/api'
+
+export class SlackProvider extends WebhookProvider {
+  format(payload: WebhookPayload, message: NotificationMessage): WebhookRequest {
+    const style = eventStyle(payload.event)
+    const blocks: any[] = [
+      { type: 'header', text: { type: 'plain_text', text: message.title.substring(0, 150), emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: message.text } }
+    ]
+
+    // Inline fields share sections; wide ones get a section of their own
+    let inline: string[] = []
+    const flush = () => {
+      if (inline.length > 0) {
+        blocks.push({ type: 'section', fields: inline.map(text => ({ type: 'mrkdwn', text })) })
+        inline = []
+      }
+    }
+    for (const field of message.fields) {
+      const text = `*${field.name}*\n${field.value}`
+      if (field.inline) {
+        inline.push(text)
+        if (inline.length === SLACK_SECTION_FIELDS) flush()
+      } else {
+        flush()
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text } })
+      }
+    }
+    flush()
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `${FOOTER} • <!date^${Math.floor(Date.parse(payload.timestamp) / 1000)}^{date_short_pretty} {time}|${payload.timestamp}>` }]
+    })
+
+    return {
+      body: {
+        // Shown in push notifications, which don't render blocks
+        text: `${message.title}: ${message.text}`,
+        attachments: [{ color: `#${style.color.toString(16).padStart(6, '0')}`, blocks }]
+      }
+    }
+  }
+
+  /**
+   * Incoming webhooks can't edit what they posted, so live messages use chat.postMessage and
+   * chat.update. The reference is "<channel id> <ts>".
+   */
+  formatLive(payload: WebhookPayload, message: NotificationMessage, ref?: string): WebhookRequest {
+    const { body } = this.format(payload, message)
+    const [channel, ts] = ref ? ref.split(' ') : [this.target.channel]
+    return {
+      url: `${SLACK_API}/${ref ? 'chat.update' : 'chat.postMessage'}`,
+      body: { ...(body as object), channel, ts },
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${this.target.token}`
+      }
+    }
+  }
+
+  async liveReference(response: Response): Promise<string | undefined> {
+    // The Web API answers 200 with ok: false for errors such as a revoked token
+    const body: any = await response.json()
+    if (!body.ok) {
+      throw Object.assign(new Error(`Slack API error: ${body.error}`), { retryable: false })
+    }
+    return `${body.channel} ${body.ts}`
+  }
+}
+
+export class TeamsProvider extends WebhookProvider {
+  format(payload: WebhookPayload, message: NotificationMessage): WebhookRequest {
+    const style = eventStyle(payload.event)
+    return {
+      body: {
+        type: 'message',
+        attachments: [{
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            msteams: { width: 'Full' },
+            body: [
+              {
+                type: 'Container',
+                style: style.tone,
+                bleed: true,
+                items: [{ type: 'TextBlock', text: message.title, weight: 'Bolder', size: 'Medium', wrap: true }]
+              },
+              { type: 'TextBlock', text: message.text, wrap: true },
+              {
+                type: 'FactSet',
+                // Adaptive Cards don't render code spans, so drop the backticks
+                facts: message.fields.map(field => ({ title: field.name, value: field.value.replace(/`/g, '') }))
+              },
+              { type: 'TextBlock', text: `${FOOTER} • ${payload.timestamp}`, size: 'Small', isSubtle: true, wrap: true }
+            ]
+          }
+        }]
+      }
+    }
+  }
+}
+
+export class JsonProvider extends WebhookProvider {
+  format(payload: WebhookPayload, message: NotificationMessage): WebhookRequest {
+    // A message template rewrites the text here too
+    const data = { ...payload, message: message.text }
+
+    if (!this.target.cloudEvents) {
+      return { body: data }
+    }
+
+    // CloudEvents 1.0 structured mode
+    return {
+      body: {
+        specversion: '1.0',
+        id: randomUUID(),
+        source: `heimdizzy/${payload.product}/${payload.service}`,
+        type: `com.heimdizzy.${payload.event}`,
+        subject: payload.environment,
+        time: payload.timestamp,
+        datacontenttype: 'application/json',
+        data
+      },
+      headers: { 'Content-Type': 'application/cloudevents+json' }
+    }
+  }
+}
+
+export function createProvider(target: NotificationTarget): WebhookProvider {
+  switch (target.provider) {
+    case 'slack':
+      return new SlackProvider(target)
+    case 'teams':
+      return new TeamsProvider(target)
+    case 'json':
+      return new JsonProvider(target)
+    default:
+      return new DiscordProvider(target)
+  }
+}
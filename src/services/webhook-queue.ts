@@ -0,0 +1,395 @@
+import { existsSync, readFileSync, appendFileSync, mkdirSync, unlinkSync, renameSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { createHash } from 'crypto'
+import chalk from 'chalk'
+import type { NotificationConfig, NotificationTarget } from '../config/schema.js'
+import type { WebhookPayload } from './webhook.js'
+import { createProvider, mergeFields, type NotificationMessage } from './webhook-providers.js'
+import { LiveMessage } from './webhook-live.js'
+
+type DeliveryConfig = NotificationConfig['delivery']
+
+interface Delivery {
+  target: NotificationTarget
+  // The latest event, which decides the colour of a coalesced message
+  payload: WebhookPayload
+  // More than one when a burst of progress events was coalesced
+  messages: NotificationMessage[]
+  queuedAt: number
+  coalesce: boolean
+  // Set for live targets, whose deliveries post or edit the run's one message
+  live?: LiveMessage
+  // Set while a request is on the wire, when the receiver may already have it
+  sending?: boolean
+  // Set once spooled, so a retry still waiting gives up instead of sending it as well
+  spooled?: boolean
+}
+
+interface SpooledDelivery {
+  // Hash of the target, so webhook URLs and their secrets never land on disk
+  target: string
+  payload: WebhookPayload
+  message: NotificationMessage
+  queuedAt: number
+}
+
+interface TargetQueue {
+  pending: Delivery[]
+  inFlight?: Delivery
+  draining?: Promise<void>
+  live?: LiveMessage
+}
+
+// Raw JSON consumers expect one request per event, so only chat messages are coalesced
+const CHAT_PROVIDERS = ['discord', 'slack', 'teams']
+const REQUEST_TIMEOUT = 10000
+const SPOOL_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * In-process delivery for webhook notifications: one ordered queue per target, retries with
+ * backoff, coalescing of progress bursts and a disk spool for what still couldn't be sent.
+ */
+export class NotificationQueue {
+  private queues = new Map<string, TargetQueue>()
+  private flushing = false
+  private deadline = Infinity
+  private wakers = new Set<() => void>()
+  private retryWakers = new Set<() => void>()
+  private exitHooked = false
+
+  constructor(
+    private config: DeliveryConfig,
+    private rateLimitDelay: number = 2000
+  ) {}
+
+  enqueue(target: NotificationTarget, payload: WebhookPayload, message: NotificationMessage): void {
+    if (target.live) {
+      const queue = this.getQueue(target)
+      queue.live ??= new LiveMessage()
+      queue.live.add(payload, message)
+      // Each edit renders the latest state, so one waiting edit covers any number of events
+      if (!queue.pending.some(delivery => delivery.live)) {
+        this.push(target, { target, payload, messages: [], queuedAt: Date.now(), coalesce: this.config.coalesceWindow > 0, live: queue.live })
+      }
+      return
+    }
+
+    const coalesce = this.config.coalesceWindow > 0 &&
+      CHAT_PROVIDERS.includes(target.provider) &&
+      this.config.progressEvents.includes(payload.event)
+
+    this.push(target, { target, payload, messages: [message], queuedAt: Date.now(), coalesce })
+  }
+
+  /**
+   * Queue what earlier runs spooled, for targets that are still configured
+   */
+  resend(targets: NotificationTarget[]): void {
+    const spoolPath = resolve(this.config.spoolPath)
+    if (!this.config.spool || !existsSync(spoolPath)) {
+      return
+    }
+
+    // Claimed by a rename, so that a concurrent run spooling meanwhile starts a new file rather than losing its entries
+    const claimedPath = `${spoolPath}.${process.pid}`
+    let entries: SpooledDelivery[]
+    try {
+      renameSync(spoolPath, claimedPath)
+      entries = readFileSync(claimedPath, 'utf-8').split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+      unlinkSync(claimedPath)
+    } catch (error: any) {
+      // Another run claimed it first
+      if (error.code === 'ENOENT') return
+      console.warn(chalk.yellow(`Could not read notification spool ${spoolPath}: ${error.message}`))
+      return
+    }
+
+    const byId = new Map(targets.map(target => [targetId(target), target]))
+    let resent = 0
+    for (const entry of entries) {
+      const target = byId.get(entry.target)
+      if (!target || Date.now() - entry.queuedAt > SPOOL_MAX_AGE) continue
+      this.push(target, { target, payload: entry.payload, messages: [entry.message], queuedAt: entry.queuedAt, coalesce: false })
+      resent++
+    }
+
+    const dropped = entries.length - resent
+    console.log(chalk.gray(`📮 Resending ${resent} notification(s) from an earlier run${dropped > 0 ? ` (${dropped} expired or for removed targets)` : ''}`))
+  }
+
+  /**
+   * Send everything queued, giving up on retries that would run past the flush timeout.
+   * Whatever is still undelivered then is spooled.
+   */
+  async flush(): Promise<void> {
+    this.flushing = true
+    this.deadline = Date.now() + this.config.flushTimeout
+    // Nothing else is coming, so stop holding progress events back
+    this.wakers.forEach(wake => wake())
+
+    const drains = [...this.queues.values()].flatMap(queue => queue.draining ? [queue.draining] : [])
+    if (drains.length === 0) {
+      return
+    }
+
+    let timer: NodeJS.Timeout | undefined
+    const timedOut = await Promise.race([
+      Promise.all(drains).then(() => false),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), this.config.flushTimeout) })
+    ])
+    clearTimeout(timer)
+
+    if (timedOut) {
+      this.spoolPending()
+    }
+  }
+
+  private getQueue(target: NotificationTarget): TargetQueue {
+    const key = targetId(target)
+    let queue = this.queues.get(key)
+    if (!queue) {
+      queue = { pending: [] }
+      this.queues.set(key, queue)
+    }
+    return queue
+  }
+
+  private push(target: NotificationTarget, delivery: Delivery): void {
+    const queue = this.getQueue(target)
+    const last = queue.pending[queue.pending.length - 1]
+    if (delivery.coalesce && last?.coalesce && !last.live) {
+      last.payload = delivery.payload
+      last.messages.push(...delivery.messages)
+    } else {
+      queue.pending.push(delivery)
+    }
+
+    this.hookExit()
+    if (!queue.draining) {
+      queue.draining = this.drain(queue)
+    }
+  }
+
+  private async drain(queue: TargetQueue): Promise<void> {
+    while (queue.pending.length > 0) {
+      const next = queue.pending[0]
+
+      // Hold progress events back briefly so the rest of the burst can join them
+      const wait = next.coalesce && !this.flushing ? next.queuedAt + this.config.coalesceWindow - Date.now() : 0
+      if (wait > 0) {
+        await this.pause(wait)
+      }
+
+      queue.pending.shift()
+      queue.inFlight = next
+      await this.deliver(next)
+      queue.inFlight = undefined
+    }
+    // Cleared in the same tick as the empty check, so a new delivery always starts a drain
+    queue.draining = undefined
+  }
+
+  private async deliver(delivery: Delivery): Promise<void> {
+    const { target } = delivery
+    const label = target.name || target.provider
+
+    try {
+      const provider = createProvider(target)
+
+      for (let attempt = 0; ; attempt++) {
+        let delay: number
+        let reason: string
+
+        try {
+          // Built per attempt: a live message may have been posted, or gained events, in the meantime
+          const { payload, message } = contents(delivery)
+          // Live targets post through their own endpoint, even for messages resent from the spool
+          const request = target.live
+            ? provider.formatLive(payload, message, delivery.live?.ref)
+            : provider.format(payload, message)
+          const url = request.url ?? target.url
+          if (!url) {
+            throw Object.assign(new Error('target has no url'), { retryable: false })
+          }
+
+          let response: Response
+          delivery.sending = true
+          try {
+            response = await fetch(url, {
+              method: request.method ?? 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                ...request.headers,
+                ...target.headers
+              },
+              body: JSON.stringify(request.body),
+              signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+            })
+          } finally {
+            delivery.sending = false
+          }
+
+          if (response.ok) {
+            if (delivery.live) {
+              delivery.live.ref = await provider.liveReference(response) ?? delivery.live.ref
+            }
+            return
+          }
+          if (delivery.live?.ref && response.status === 404) {
+            // Someone deleted the live message; post a fresh one
+            delivery.live.ref = undefined
+            delay = 0
+            reason = 'lost its live message'
+          } else if (response.status === 429) {
+            delay = provider.retryAfter(response) ?? this.rateLimitDelay
+            reason = 'was rate limited'
+          } else if (response.status >= 500 || response.status === 408) {
+            delay = this.backoff(attempt)
+            reason = `failed with ${response.status}`
+          } else {
+            // The request itself is wrong, sending it again won't help
+            console.warn(chalk.yellow(`Webhook notification to ${label} failed: ${response.status}`))
+            return
+          }
+        } catch (error: any) {
+          if (error.retryable === false) {
+            console.warn(chalk.yellow(`Webhook notification to ${label} failed: ${error.message}`))
+            return
+          }
+          delay = this.backoff(attempt)
+          reason = error.name === 'TimeoutError' ? 'timed out' : `failed (${error.cause?.code || error.message})`
+        }
+
+        if (attempt >= this.config.maxRetries || Date.now() + delay > this.deadline) {
+          this.giveUp(delivery, `Notification to ${label} ${reason}`)
+          return
+        }
+
+        console.warn(chalk.yellow(`⚠️  Notification to ${label} ${reason}, retrying in ${delay}ms (${attempt + 1}/${this.config.maxRetries})`))
+        await this.pause(delay, this.retryWakers)
+        if (delivery.spooled) {
+          return
+        }
+      }
+    } catch (error: any) {
+      // Don't fail deployment if webhook fails
+      console.warn(chalk.yellow(`Failed to send webhook notification to ${label}`), error)
+    }
+  }
+
+  private backoff(attempt: number): number {
+    // Full jitter, like the upload engine
+    return Math.round(Math.random() * Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** attempt))
+  }
+
+  private giveUp(delivery: Delivery, reason: string): void {
+    if (this.spool([delivery]) > 0) {
+      console.warn(chalk.yellow(`${reason}, spooled to ${this.config.spoolPath} for the next run`))
+    } else {
+      console.warn(chalk.yellow(`${reason}, giving up`))
+    }
+  }
+
+  /**
+   * Spool everything still queued. Synchronous, so it also works from the exit handler.
+   * A request still on the wire may yet arrive, so it is left out rather than sent twice.
+   */
+  private spoolPending(): void {
+    const deliveries = [...this.queues.values()].flatMap(queue => {
+      const left = queue.inFlight && !queue.inFlight.sending ? [queue.inFlight, ...queue.pending] : queue.pending
+      queue.pending = []
+      queue.inFlight = undefined
+      // An in-flight and a waiting edit of the same live message render the same thing
+      return left.filter((delivery, i) => !delivery.live || left.findIndex(other => other.live === delivery.live) === i)
+    })
+    if (deliveries.length === 0) {
+      return
+    }
+
+    // Whatever is handed to the spool is sent by the next run, not by this one's retries
+    deliveries.forEach(delivery => { delivery.spooled = true })
+    this.retryWakers.forEach(wake => wake())
+
+    const spooled = this.spool(deliveries)
+    const lost = deliveries.length - spooled
+    if (spooled > 0) console.warn(chalk.yellow(`${spooled} notification(s) not delivered yet, spooled to ${this.config.spoolPath}`))
+    if (lost > 0) console.warn(chalk.yellow(`${lost} progress notification(s) dropped at exit`))
+  }
+
+  /**
+   * Append deliveries worth resending to the spool file. Returns how many were written.
+   */
+  private spool(deliveries: Delivery[]): number {
+    // Progress events, and live messages of runs that didn't finish, are stale by the next run
+    const keep = deliveries
+      .map(delivery => ({ delivery, ...contents(delivery) }))
+      .filter(({ delivery, payload }) =>
+        this.config.spool &&
+        !this.config.progressEvents.includes(payload.event) &&
+        (!delivery.live || delivery.live.finished)
+      )
+    if (keep.length === 0) {
+      return 0
+    }
+
+    try {
+      const spoolPath = resolve(this.config.spoolPath)
+      mkdirSync(dirname(spoolPath), { recursive: true })
+      appendFileSync(spoolPath, keep.map(({ delivery, payload, message }) => JSON.stringify({
+        target: targetId(delivery.target),
+        payload,
+        message,
+        queuedAt: delivery.queuedAt
+      } satisfies SpooledDelivery) + '\n').join(''))
+      return keep.length
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Could not spool notifications: ${error.message}`))
+      return 0
+    }
+  }
+
+  private pause(ms: number, wakers: Set<() => void> = this.wakers): Promise<void> {
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer)
+        wakers.delete(wake)
+        resolve()
+      }
+      const timer = setTimeout(wake, ms)
+      wakers.add(wake)
+    })
+  }
+
+  private hookExit(): void {
+    if (this.exitHooked) return
+    this.exitHooked = true
+    // process.exit() skips pending work; keep what hasn't gone out instead of losing it
+    process.once('exit', () => this.spoolPending())
+  }
+}
+
+function targetId(target: NotificationTarget): string {
+  const destination = target.url ?? target.channel
+  return createHash('sha256').update(`${target.provider} ${destination}${target.live ? ' live' : ''}`).digest('hex').substring(0, 16)
+}
+
+function contents(delivery: Delivery): { payload: WebhookPayload, message: NotificationMessage } {
+  return delivery.live
+    ? delivery.live.render()
+    : { payload: delivery.payload, message: combineMessages(delivery.messages) }
+}
+
+/**
+ * One message for a coalesced burst: the latest title, a line per event and the latest value of each field
+ */
+function combineMessages(messages: NotificationMessage[]): NotificationMessage {
+  if (messages.length === 1) {
+    return messages[0]
+  }
+
+  return {
+    title: messages[messages.length - 1].title,
+    text: messages.map(message => `${message.title}: ${message.text}`).join('\n'),
+    fields: mergeFields(messages)
+  }
+}
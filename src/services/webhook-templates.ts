@@ -0,0 +1,191 @@
+import { execSync } from 'child_process'
+import type { NotificationConfig, NotificationTemplate } from '../config/schema.js'
+import type { WebhookPayload } from './webhook.js'
+import type { NotificationMessage } from './webhook-providers.js'
+
+type WebhookDetails = NonNullable<WebhookPayload['details']>
+
+export interface TemplateContext extends WebhookPayload {
+  repositoryUrl?: string
+  commitUrl?: string
+}
+
+// A record rather than a list so that a new payload detail can't be left out here
+const DETAIL_KEYS: Record<keyof WebhookDetails, true> = {
+  gitHash: true,
+  previousGitHash: true,
+  buildId: true,
+  error: true,
+  duration: true,
+  size: true,
+  count: true,
+  artifactPath: true,
+  podStatus: true,
+  imageName: true,
+  namespace: true,
+  commitHash: true,
+  prUrl: true,
+  packageName: true,
+  version: true,
+  distTag: true,
+  integrity: true,
+  digest: true,
+  tags: true,
+  functionName: true,
+  alias: true,
+  filesDeployed: true,
+  filesUploaded: true,
+  filesSkipped: true,
+  filesDeleted: true,
+  filesRestored: true,
+  filesRemoved: true,
+  invalidationId: true,
+  previewUrl: true,
+  release: true,
+  buildTime: true,
+  deployTime: true
+}
+
+const CONTEXT_KEYS: (keyof TemplateContext)[] = [
+  'service', 'product', 'environment', 'event', 'message', 'timestamp', 'repositoryUrl', 'commitUrl'
+]
+
+export const TEMPLATE_VARIABLES = [
+  ...CONTEXT_KEYS,
+  ...Object.keys(DETAIL_KEYS).map(key => `details.${key}`)
+]
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g
+
+/**
+ * Render an event's template over the payload, keeping the built-in parts it doesn't replace
+ */
+export function renderMessage(
+  template: NotificationTemplate | undefined,
+  context: TemplateContext,
+  defaults: NotificationMessage
+): NotificationMessage {
+  if (!template) {
+    return defaults
+  }
+
+  return {
+    title: template.title !== undefined ? render(template.title, context) : defaults.title,
+    text: template.message !== undefined ? render(template.message, context) : defaults.text,
+    fields: template.fields
+      ? template.fields
+        .map(field => ({ name: render(field.name, context), value: render(field.value, context), inline: field.inline }))
+        // A field over a detail this event doesn't have would only show an empty box
+        .filter(field => field.value.trim() !== '')
+      : defaults.fields
+  }
+}
+
+/**
+ * Unknown placeholders and unbalanced braces in all templates, as `event.part: problem` lines
+ */
+export function templateErrors(templates: NotificationConfig['templates'] | undefined): string[] {
+  const errors: string[] = []
+
+  for (const [event, template] of Object.entries(templates ?? {})) {
+    if (!template) continue
+
+    const parts: [string, string | undefined][] = [
+      ['title', template.title],
+      ['message', template.message],
+      ...(template.fields ?? []).flatMap((field, i): [string, string][] => [
+        [`fields[${i}].name`, field.name],
+        [`fields[${i}].value`, field.value]
+      ])
+    ]
+
+    for (const [part, text] of parts) {
+      if (text === undefined) continue
+      for (const problem of placeholderErrors(text)) {
+        errors.push(`${event}.${part}: ${problem}`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Web URL of the origin remote, e.g. https://github.com/org/repo for git@github.com:org/repo.git
+ */
+export function originRepositoryUrl(): string | undefined {
+  let remote: string
+  try {
+    remote = execSync('git remote get-url origin', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim()
+  } catch {
+    return undefined
+  }
+
+  // scp-like syntax: git@host:org/repo.git
+  const scp = remote.match(/^[\w.-]+@([^:/]+):(.+?)(?:\.git)?\/?$/)
+  if (scp) {
+    return `https://${scp[1]}/${scp[2]}`
+  }
+
+  try {
+    const url = new URL(remote)
+    if (!['http:', 'https:', 'ssh:', 'git:'].includes(url.protocol)) {
+      return undefined
+    }
+    // Rebuilt from parts so credentials in the remote never end up in a message. SSH ports aren't web ports.
+    const origin = url.protocol === 'http:' ? `http://${url.host}` : `https://${url.hostname}`
+    return origin + url.pathname.replace(/\.git\/?$/, '').replace(/\/$/, '')
+  } catch {
+    return undefined
+  }
+}
+
+function render(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = path.split('.').reduce<any>((current, key) => current?.[key], context)
+    if (value === undefined || value === null) return ''
+    return Array.isArray(value) ? value.join(', ') : String(value)
+  })
+}
+
+function placeholderErrors(template: string): string[] {
+  const errors: string[] = []
+
+  for (const [, path] of template.matchAll(PLACEHOLDER)) {
+    if (!TEMPLATE_VARIABLES.includes(path)) {
+      const suggestion = closestVariable(path)
+      errors.push(`unknown placeholder {{${path}}}${suggestion ? ` (did you mean {{${suggestion}}}?)` : ''}`)
+    }
+  }
+
+  if (/\{\{|\}\}/.test(template.replace(PLACEHOLDER, ''))) {
+    errors.push('unbalanced {{ }}')
+  }
+
+  return errors
+}
+
+function closestVariable(path: string): string | undefined {
+  let best: string | undefined
+  let bestDistance = 3
+  for (const variable of TEMPLATE_VARIABLES) {
+    const distance = editDistance(path.toLowerCase(), variable.toLowerCase())
+    if (distance < bestDistance) {
+      best = variable
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
@@ -1,12 +1,9 @@
-import chalk from 'chalk'
+import type { NotificationConfig, NotificationEvent, NotificationTarget } from '../config/schema.js'
+import { defaultMessage, type NotificationMessage } from './webhook-providers.js'
+import { NotificationQueue } from './webhook-queue.js'
+import { originRepositoryUrl, renderMessage } from './webhook-templates.js'
 
-export type WebhookEvent = 
-  | 'deployStart' | 'deploySuccess' | 'deployError'
-  | 'buildStart' | 'buildSuccess' | 'buildSkipped' 
-  | 'uploadStart' | 'uploadSuccess' | 'uploadSkipped'
-  | 'podsRestarting' | 'podsReady'
-  | 'webDeploying' | 'webDeployed'
-  | 'cleanup' | 'dryRun'
+export type WebhookEvent = NotificationEvent
 
 export interface WebhookPayload {
   service: string
@@ -17,6 +14,7 @@ export interface WebhookPayload {
   timestamp: string
   details?: {
     gitHash?: string
+    previousGitHash?: string
     buildId?: string
     error?: string
     duration?: number
@@ -24,193 +22,102 @@ export interface WebhookPayload {
     count?: number
     artifactPath?: string
     podStatus?: string
+    imageName?: string
+    namespace?: string
+    commitHash?: string
+    prUrl?: string
+    packageName?: string
+    version?: string
+    distTag?: string
+    integrity?: string
+    digest?: string
+    tags?: string[]
+    functionName?: string
+    alias?: string
     filesDeployed?: number
+    filesUploaded?: number
+    filesSkipped?: number
+    filesDeleted?: number
+    filesRestored?: number
+    filesRemoved?: number
     invalidationId?: string
+    previewUrl?: string
+    release?: string
     buildTime?: number
     deployTime?: number
   }
 }
 
 export class WebhookService {
-  async sendNotification(
-    webhookUrl: string | undefined, 
-    payload: WebhookPayload,
-    rateLimitDelay: number = 2000
-  ): Promise<void> {
-    if (!webhookUrl) {
+  // Looked up once, on the first templated notification
+  private originUrl?: string | null
+  private queue?: NotificationQueue
+
+  /**
+   * Queue the payload for every target that wants this event. Delivery happens in the
+   * background; call flush() before exiting. Failures are logged, never thrown.
+   */
+  sendNotification(
+    notifications: NotificationConfig | undefined,
+    payload: WebhookPayload
+  ): void {
+    if (!notifications || notifications.enabled === false || notifications.events?.[payload.event] === false) {
       return
     }
-    
-    try {
-      const embed = this.createDiscordEmbed(payload)
-      
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          embeds: [embed]
-        })
-      })
-      
-      // Check for Discord rate limiting
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('X-RateLimit-Reset-After')
-        const delay = retryAfter ? parseInt(retryAfter) * 1000 : rateLimitDelay
-        
-        console.warn(chalk.yellow(`Discord rate limit hit. Waiting ${delay}ms before continuing...`))
-        await new Promise(resolve => setTimeout(resolve, delay))
-        
-        // Don't retry the notification, just continue with deployment
-        return
-      }
-      
-      if (!response.ok) {
-        console.warn(chalk.yellow(`Webhook notification failed: ${response.status}`))
-      }
-    } catch (error) {
-      // Don't fail deployment if webhook fails
-      console.warn(chalk.yellow('Failed to send webhook notification'), error)
+
+    const targets = this.resolveTargets(notifications)
+      .filter(target => !target.events || target.events.includes(payload.event))
+
+    const message = this.buildMessage(notifications, payload)
+    const queue = this.getQueue(notifications)
+
+    for (const target of targets) {
+      queue.enqueue(target, payload, message)
     }
   }
-  
-  private createDiscordEmbed(payload: WebhookPayload) {
-    const eventConfig: Record<WebhookEvent, { color: number, icon: string, title: string }> = {
-      deployStart: { color: 0x3498db, icon: '🚀', title: 'Deployment Started' },
-      deploySuccess: { color: 0x2ecc71, icon: '✅', title: 'Deployment Completed' },
-      deployError: { color: 0xe74c3c, icon: '❌', title: 'Deployment Failed' },
-      buildStart: { color: 0x9b59b6, icon: '🔨', title: 'Build Started' },
-      buildSuccess: { color: 0x2ecc71, icon: '✅', title: 'Build Completed' },
-      buildSkipped: { color: 0xf39c12, icon: '⏭️', title: 'Build Skipped' },
-      uploadStart: { color: 0x3498db, icon: '📤', title: 'Upload Started' },
-      uploadSuccess: { color: 0x2ecc71, icon: '✅', title: 'Upload Completed' },
-      uploadSkipped: { color: 0xf39c12, icon: '⏭️', title: 'Upload Skipped' },
-      podsRestarting: { color: 0x3498db, icon: '🔄', title: 'Restarting Pods' },
-      podsReady: { color: 0x2ecc71, icon: '✅', title: 'Pods Ready' },
-      webDeploying: { color: 0x3498db, icon: '🌐', title: 'Deploying Web Assets' },
-      webDeployed: { color: 0x2ecc71, icon: '🌐', title: 'Web Assets Deployed' },
-      cleanup: { color: 0x95a5a6, icon: '🧹', title: 'Cleanup Completed' },
-      dryRun: { color: 0xe67e22, icon: '🧪', title: 'Dry Run Mode' }
-    }
-    
-    const config = eventConfig[payload.event] || { color: 0x95a5a6, icon: '📝', title: 'Notification' }
-    
-    const embed: any = {
-      title: `${config.icon} ${config.title}`,
-      description: payload.message,
-      color: config.color,
-      fields: [
-        {
-          name: 'Product',
-          value: payload.product,
-          inline: true
-        },
-        {
-          name: 'Service',
-          value: payload.service,
-          inline: true
-        },
-        {
-          name: 'Environment',
-          value: payload.environment,
-          inline: true
-        }
-      ],
-      timestamp: payload.timestamp,
-      footer: {
-        text: 'Heimdizzy Deployment Tool'
-      }
-    }
-    
-    if (payload.details?.gitHash) {
-      embed.fields.push({
-        name: 'Git Hash',
-        value: `\`${payload.details.gitHash}\``,
-        inline: true
-      })
-    }
-    
-    if (payload.details?.duration) {
-      embed.fields.push({
-        name: 'Duration',
-        value: `${Math.round(payload.details.duration / 1000)}s`,
-        inline: true
-      })
-    }
-    
-    if (payload.details?.size) {
-      embed.fields.push({
-        name: 'Size',
-        value: payload.details.size,
-        inline: true
-      })
-    }
-    
-    if (payload.details?.artifactPath) {
-      embed.fields.push({
-        name: 'Artifact',
-        value: `\`${payload.details.artifactPath}\``,
-        inline: false
-      })
-    }
-    
-    if (payload.details?.count !== undefined) {
-      embed.fields.push({
-        name: 'Pod Count',
-        value: payload.details.count.toString(),
-        inline: true
-      })
-    }
-    
-    if (payload.details?.podStatus) {
-      embed.fields.push({
-        name: 'Pod Status',
-        value: payload.details.podStatus,
-        inline: false
-      })
-    }
-    
-    if (payload.details?.filesDeployed !== undefined) {
-      embed.fields.push({
-        name: 'Files Deployed',
-        value: payload.details.filesDeployed.toString(),
-        inline: true
-      })
-    }
-    
-    if (payload.details?.invalidationId) {
-      embed.fields.push({
-        name: 'CloudFront Invalidation',
-        value: `\`${payload.details.invalidationId}\``,
-        inline: true
-      })
-    }
-    
-    if (payload.details?.buildTime !== undefined) {
-      embed.fields.push({
-        name: 'Build Time',
-        value: `${Math.round(payload.details.buildTime / 1000)}s`,
-        inline: true
-      })
+
+  /**
+   * Wait for queued notifications, spooling what can't be delivered within the flush timeout
+   */
+  async flush(): Promise<void> {
+    await this.queue?.flush()
+  }
+
+  private getQueue(notifications: NotificationConfig): NotificationQueue {
+    if (!this.queue) {
+      this.queue = new NotificationQueue(notifications.delivery, notifications.rateLimitDelay)
+      // Anything an earlier run couldn't deliver goes out first
+      this.queue.resend(this.resolveTargets(notifications))
     }
-    
-    if (payload.details?.deployTime !== undefined) {
-      embed.fields.push({
-        name: 'Deploy Time',
-        value: `${Math.round(payload.details.deployTime / 1000)}s`,
-        inline: true
-      })
+    return this.queue
+  }
+
+  private buildMessage(notifications: NotificationConfig, payload: WebhookPayload): NotificationMessage {
+    const template = notifications.templates?.[payload.event]
+    if (!template) {
+      return defaultMessage(payload)
     }
-    
-    if (payload.details?.error) {
-      embed.fields.push({
-        name: 'Error',
-        value: `\`\`\`${payload.details.error.substring(0, 1000)}\`\`\``,
-        inline: false
-      })
+
+    if (this.originUrl === undefined && !notifications.repositoryUrl) {
+      this.originUrl = originRepositoryUrl() ?? null
     }
-    
-    return embed
+    const repositoryUrl = notifications.repositoryUrl?.replace(/\/$/, '') || this.originUrl || undefined
+    const gitHash = payload.details?.gitHash
+
+    return renderMessage(template, {
+      ...payload,
+      repositoryUrl,
+      commitUrl: repositoryUrl && gitHash ? `${repositoryUrl}/commit/${gitHash}` : undefined
+    }, defaultMessage(payload))
   }
-}
\ No newline at end of file
+
+  /**
+   * The legacy `webhook` URL is a Discord target that receives every enabled event
+   */
+  resolveTargets(notifications: NotificationConfig): NotificationTarget[] {
+    const legacy: NotificationTarget[] = notifications.webhook
+      ? [{ provider: 'discord', url: notifications.webhook, cloudEvents: false, live: false }]
+      : []
+    return [...legacy, ...(notifications.targets ?? [])]
+  }
+}
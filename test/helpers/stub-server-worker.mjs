@@ -0,0 +1,34 @@
+// HTTP stub for stub-server.ts. It runs on its own thread so that clients blocking the
+// main thread, such as the npm CLI under execSync, still get answers.
+import { createServer } from 'http'
+import { parentPort, workerData } from 'worker_threads'
+
+const routes = workerData.routes
+const requests = []
+
+const server = createServer((req, res) => {
+  let body = ''
+  req.setEncoding('utf-8')
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    requests.push({ method: req.method, url: req.url, headers: req.headers, body })
+
+    // A list of responses is answered in order, repeating the last one
+    const route = routes[`${req.method} ${req.url.split('?')[0]}`]
+    const response = Array.isArray(route) ? (route.length > 1 ? route.shift() : route[0]) : route
+    if (!response) {
+      res.writeHead(404, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'not found' }))
+      return
+    }
+
+    res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers })
+    res.end(response.body === undefined ? '' : JSON.stringify(response.body))
+  })
+})
+
+server.listen(0, '127.0.0.1', () => parentPort.postMessage({ port: server.address().port }))
+
+parentPort.on('message', message => {
+  if (message === 'requests') parentPort.postMessage({ requests })
+})
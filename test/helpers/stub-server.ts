@@ -0,0 +1,45 @@
+import { Worker } from 'worker_threads'
+
+export interface StubRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+export interface StubResponse {
+  status?: number
+  headers?: Record<string, string>
+  // Sent as JSON
+  body?: unknown
+}
+
+export interface StubServer {
+  url: string
+  requests(): Promise<StubRequest[]>
+  close(): Promise<void>
+}
+
+/**
+ * Serve canned JSON responses keyed by "METHOD /path" on a local port, recording every request
+ */
+export async function startStubServer(routes: Record<string, StubResponse | StubResponse[]>): Promise<StubServer> {
+  const worker = new Worker(new URL('./stub-server-worker.mjs', import.meta.url), { workerData: { routes } })
+  const next = () => new Promise<any>((resolve, reject) => {
+    worker.once('message', resolve)
+    worker.once('error', reject)
+  })
+
+  const { port } = await next()
+  return {
+    url: `http://127.0.0.1:${port}`,
+    async requests() {
+      const reply = next()
+      worker.postMessage('requests')
+      return (await reply).requests
+    },
+    async close() {
+      await worker.terminate()
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { createHash } from 'crypto'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readBuildManifest, getBuildManifestPath, type BuildResult } from '../../src/services/build.js'
+
+describe('readBuildManifest', () => {
+  let root: string
+  let binaryPath: string
+
+  const writeManifest = (manifest: Partial<BuildResult>) => writeFileSync(join(root, 'target', 'heimdizzy-build.json'), JSON.stringify({
+    binaryPath,
+    gitHash: 'abc1234',
+    buildId: '1700000000000-abc1234',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...manifest
+  }))
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'heimdizzy-build-'))
+    mkdirSync(join(root, 'src', 'bin'), { recursive: true })
+    mkdirSync(join(root, 'target'))
+    writeFileSync(join(root, 'Cargo.toml'), '[package]\nname = "api"\n')
+    binaryPath = join(root, 'target', 'api')
+    writeFileSync(binaryPath, 'binary')
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds the manifest in the target directory of the service root', () => {
+    expect(getBuildManifestPath(join(root, 'src', 'bin'))).toBe(join(root, 'target', 'heimdizzy-build.json'))
+  })
+
+  it('returns null before the first build', () => {
+    expect(readBuildManifest(root)).toBeNull()
+  })
+
+  it('returns the build when the artifact is the one that was built', () => {
+    const sha256 = createHash('sha256').update('binary').digest('hex')
+    writeManifest({ sha256, platform: 'arm64' })
+
+    expect(readBuildManifest(join(root, 'src'))).toMatchObject({ binaryPath, gitHash: 'abc1234', sha256, platform: 'arm64' })
+  })
+
+  it('accepts manifests without a hash', () => {
+    writeManifest({})
+
+    expect(readBuildManifest(root)?.binaryPath).toBe(binaryPath)
+  })
+
+  it('refuses an artifact that changed since it was built', () => {
+    writeManifest({ sha256: createHash('sha256').update('binary').digest('hex') })
+    writeFileSync(binaryPath, 'rebuilt by hand')
+
+    expect(() => readBuildManifest(root)).toThrow(`Artifact ${binaryPath} changed since it was built (sha256 mismatch), rebuild it`)
+  })
+
+  it('refuses a manifest whose artifact is gone', () => {
+    writeManifest({})
+    rmSync(binaryPath)
+
+    expect(() => readBuildManifest(root)).toThrow(`points to missing artifact ${binaryPath}`)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ForgeConfigSchema } from '../../src/config/schema.js'
+import { createForgeClient } from '../../src/services/forge.js'
+import { startStubServer, type StubServer } from '../helpers/stub-server.js'
+
+const pullRequest = {
+  repository: 'org/gitops',
+  title: 'Deploy api abc1234 to production',
+  body: 'Updates the api image',
+  head: 'heimdizzy/api-production-abc1234',
+  base: 'main'
+}
+
+describe('forge clients', () => {
+  let server: StubServer | undefined
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await server?.close()
+    server = undefined
+  })
+
+  it('opens GitHub pull requests with a bearer token', async () => {
+    server = await startStubServer({
+      'POST /repos/org/gitops/pulls': { status: 201, body: { number: 7, html_url: 'https://github.com/org/gitops/pull/7' } }
+    })
+    const client = createForgeClient(ForgeConfigSchema.parse({ apiUrl: `${server.url}/`, token: 'ghp_token' }))
+
+    await expect(client.createPullRequest(pullRequest)).resolves.toEqual({ number: 7, url: 'https://github.com/org/gitops/pull/7' })
+
+    const [request] = await server.requests()
+    expect(request.headers.authorization).toBe('Bearer ghp_token')
+    expect(request.headers['x-github-api-version']).toBe('2022-11-28')
+    expect(JSON.parse(request.body)).toEqual({
+      title: pullRequest.title,
+      body: pullRequest.body,
+      head: pullRequest.head,
+      base: 'main'
+    })
+  })
+
+  it('opens Gitea pull requests with a token header', async () => {
+    server = await startStubServer({
+      'POST /api/v1/repos/org/gitops/pulls': { status: 201, body: { number: 3, html_url: 'https://git.example.com/org/gitops/pulls/3' } }
+    })
+    vi.stubEnv('GITEA_TOKEN', 'gitea_token')
+    const client = createForgeClient(ForgeConfigSchema.parse({ provider: 'gitea', apiUrl: `${server.url}/api/v1` }))
+
+    await expect(client.createPullRequest(pullRequest)).resolves.toEqual({ number: 3, url: 'https://git.example.com/org/gitops/pulls/3' })
+
+    const [request] = await server.requests()
+    expect(request.headers.authorization).toBe('token gitea_token')
+  })
+
+  it('reports what the forge answered when it refuses', async () => {
+    server = await startStubServer({
+      'POST /repos/org/gitops/pulls': { status: 422, body: { message: 'A pull request already exists for org:heimdizzy/api-production-abc1234.' } }
+    })
+    const client = createForgeClient(ForgeConfigSchema.parse({ apiUrl: server.url, token: 'ghp_token' }))
+
+    await expect(client.createPullRequest(pullRequest)).rejects.toThrow('Pull request creation failed (422): {"message":"A pull request already exists')
+  })
+
+  it('needs a token, and an API URL for Gitea', () => {
+    vi.stubEnv('GITHUB_TOKEN', '')
+    vi.stubEnv('GITEA_TOKEN', '')
+
+    expect(() => createForgeClient(ForgeConfigSchema.parse({}))).toThrow('GitHub token not configured')
+    expect(() => createForgeClient(ForgeConfigSchema.parse({ provider: 'gitea', token: 'x' }))).toThrow('forge.apiUrl is required for the gitea provider')
+    expect(() => createForgeClient(ForgeConfigSchema.parse({ provider: 'gitea', apiUrl: 'https://git.example.com/api/v1' }))).toThrow('Gitea token not configured')
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, existsSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { S3Client, ListObjectsV2Command, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3'
+import { HistoryConfigSchema, S3ConfigSchema } from '../../src/config/schema.js'
+import { HistoryService, type DeploymentRecord } from '../../src/services/history.js'
+
+function record(id: string, timestamp: string, overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id,
+    service: 'api',
+    environment: 'production',
+    deploymentType: 'kubernetes',
+    gitHash: `${id}000000`,
+    outcome: 'success',
+    duration: 1000,
+    operator: 'ci',
+    timestamp,
+    ...overrides
+  }
+}
+
+const stubSend = () => vi.spyOn(S3Client.prototype, 'send')
+
+describe('HistoryService', () => {
+  let dir: string
+  let localPath: string
+  // Ledger objects by key, standing in for the bucket
+  let bucket: Map<string, DeploymentRecord>
+  let send: ReturnType<typeof stubSend>
+
+  const service = () => new HistoryService(
+    S3ConfigSchema.parse({ bucket: 'deployments' }),
+    HistoryConfigSchema.parse({ localPath })
+  )
+  const store = (...records: DeploymentRecord[]) => records.forEach(entry => bucket.set(
+    `heimdizzy/history/${entry.environment}/${entry.service}/${entry.timestamp}-${entry.id}.json`, entry
+  ))
+  const writeLocal = (...records: DeploymentRecord[]) => writeFileSync(localPath, records.map(entry => JSON.stringify(entry) + '\n').join(''))
+  const reads = () => send.mock.calls.filter(([command]) => command instanceof GetObjectCommand).length
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heimdizzy-history-'))
+    localPath = join(dir, 'history.jsonl')
+    bucket = new Map()
+    send = stubSend().mockImplementation(async (command: any) => {
+      if (command instanceof ListObjectsV2Command) {
+        const keys = [...bucket.keys()].filter(key => key.startsWith(command.input.Prefix!))
+        return { Contents: keys.map(Key => ({ Key })), IsTruncated: false }
+      }
+      if (command instanceof GetObjectCommand) {
+        const body = JSON.stringify(bucket.get(command.input.Key!))
+        return { Body: { transformToString: async () => body } }
+      }
+      if (command instanceof PutObjectCommand) {
+        bucket.set(command.input.Key!, JSON.parse(command.input.Body as string))
+        return {}
+      }
+      throw new Error(`Unexpected command ${command.constructor.name}`)
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('list', () => {
+    it('merges the bucket and the local ledger, newest first', async () => {
+      store(
+        record('a', '2026-01-01T00:00:00.000Z'),
+        record('c', '2026-01-03T00:00:00.000Z', { service: 'worker' }),
+        record('x', '2026-01-04T00:00:00.000Z', { environment: 'staging' })
+      )
+      // One record made it to both, one only reached the local file
+      writeLocal(record('a', '2026-01-01T00:00:00.000Z'), record('b', '2026-01-02T00:00:00.000Z'))
+
+      const records = await service().list('production')
+      expect(records.map(entry => entry.id)).toEqual(['c', 'b', 'a'])
+    })
+
+    it('filters by service, outcome and git hash prefix', async () => {
+      store(
+        record('a', '2026-01-01T00:00:00.000Z'),
+        record('b', '2026-01-02T00:00:00.000Z', { outcome: 'failure' }),
+        record('c', '2026-01-03T00:00:00.000Z', { service: 'worker' }),
+        record('d', '2026-01-04T00:00:00.000Z')
+      )
+
+      const history = service()
+      expect((await history.list('production', { service: 'api' })).map(entry => entry.id)).toEqual(['d', 'b', 'a'])
+      expect((await history.list('production', { outcome: 'failure' })).map(entry => entry.id)).toEqual(['b'])
+      expect((await history.list('production', { gitHash: 'c000' })).map(entry => entry.id)).toEqual(['c'])
+    })
+
+    it('stops reading the bucket once the limit is reached', async () => {
+      const records = Array.from({ length: 20 }, (_, i) => record(`r${i}`, `2026-01-01T00:00:${String(i).padStart(2, '0')}.000Z`))
+      store(...records)
+
+      const listed = await service().list('production', { limit: 3 })
+      expect(listed.map(entry => entry.id)).toEqual(['r19', 'r18', 'r17'])
+      // One batch of reads, not the whole ledger
+      expect(reads()).toBe(8)
+    })
+
+    it('stops reading the bucket once done is satisfied', async () => {
+      const records = Array.from({ length: 20 }, (_, i) => record(`r${i}`, `2026-01-01T00:00:${String(i).padStart(2, '0')}.000Z`))
+      store(...records)
+
+      const listed = await service().list('production', {}, settled => settled.some(entry => entry.id === 'r15'))
+      expect(listed).toHaveLength(8)
+      expect(reads()).toBe(8)
+    })
+
+    it('falls back to the local ledger only when the bucket cannot be read', async () => {
+      store(record('a', '2026-01-01T00:00:00.000Z'))
+      writeLocal(
+        record('b', '2026-01-02T00:00:00.000Z'),
+        record('c', '2026-01-03T00:00:00.000Z', { environment: 'staging' })
+      )
+      send.mockRejectedValue(new Error('Access Denied'))
+
+      const records = await service().list('production')
+      expect(records.map(entry => entry.id)).toEqual(['b'])
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not read deployment history from S3 (Access Denied)'))
+    })
+  })
+
+  describe('record', () => {
+    it('writes to the local ledger while the bucket is unreachable and moves it up afterwards', async () => {
+      const history = service()
+      send.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+      await history.record(record('a', '2026-01-01T00:00:00.000Z'))
+
+      expect(bucket.size).toBe(0)
+      expect(readFileSync(localPath, 'utf-8')).toContain('"id":"a"')
+
+      await history.record(record('b', '2026-01-02T00:00:00.000Z'))
+
+      expect([...bucket.values()].map(entry => entry.id).sort()).toEqual(['a', 'b'])
+      expect(existsSync(localPath)).toBe(false)
+    })
+
+    it('does nothing when history is disabled', async () => {
+      const history = new HistoryService(S3ConfigSchema.parse({ bucket: 'deployments' }), HistoryConfigSchema.parse({ enabled: false, localPath }))
+      await history.record(record('a', '2026-01-01T00:00:00.000Z'))
+
+      expect(send).not.toHaveBeenCalled()
+      expect(existsSync(localPath)).toBe(false)
+    })
+  })
+})
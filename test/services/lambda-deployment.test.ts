@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LambdaDeploymentConfigSchema, S3ConfigSchema } from '../../src/config/schema.js'
+import { LambdaDeploymentService } from '../../src/services/lambda-deployment.js'
+import { startStubServer, type StubServer } from '../helpers/stub-server.js'
+
+const FUNCTION = '/2015-03-31/functions/api-handler'
+const service = { name: 'api' }
+const artifact = { bucket: 'artifacts', key: 'api/production/abc1234.zip' }
+
+describe('LambdaDeploymentService', () => {
+  let dir: string
+  let server: StubServer | undefined
+
+  const lambdaConfig = (overrides: object = {}) => LambdaDeploymentConfigSchema.parse({
+    functionName: 'api-handler',
+    region: 'eu-west-1',
+    endpoint: server?.url,
+    ...overrides
+  })
+  const bodies = async (method: string, path: string) => (await server!.requests())
+    .filter(request => request.method === method && request.url.split('?')[0] === path)
+    .map(request => JSON.parse(request.body))
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heimdizzy-lambda-'))
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'test')
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'test')
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await server?.close()
+    server = undefined
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('updates the code from S3, publishes a version and moves the alias', async () => {
+    server = await startStubServer({
+      [`PUT ${FUNCTION}/code`]: { body: { CodeSha256: 'c29tZWhhc2g=', LastUpdateStatus: 'InProgress' } },
+      [`GET ${FUNCTION}/configuration`]: { body: { LastUpdateStatus: 'Successful' } },
+      [`POST ${FUNCTION}/versions`]: { status: 201, body: { Version: '4' } },
+      [`GET ${FUNCTION}/aliases/live`]: { body: { Name: 'live', FunctionVersion: '3' } },
+      [`PUT ${FUNCTION}/aliases/live`]: { body: { Name: 'live', FunctionVersion: '4' } }
+    })
+
+    const result = await new LambdaDeploymentService().deploy(
+      service, S3ConfigSchema.parse({ bucket: 'artifacts' }), lambdaConfig({ alias: 'live' }), artifact, 'arm64'
+    )
+
+    expect(result).toEqual({ functionName: 'api-handler', version: '4', alias: 'live', previousVersion: '3', codeSha256: 'c29tZWhhc2g=' })
+    expect(await bodies('PUT', `${FUNCTION}/code`)).toEqual([{ S3Bucket: 'artifacts', S3Key: artifact.key, Architectures: ['arm64'] }])
+    expect(await bodies('POST', `${FUNCTION}/versions`)).toEqual([{ CodeSha256: 'c29tZWhhc2g=', Description: `heimdizzy api ${artifact.key}` }])
+    expect(await bodies('PUT', `${FUNCTION}/aliases/live`)).toEqual([{ FunctionVersion: '4' }])
+    // Nothing to change in the configuration
+    expect(await bodies('PUT', `${FUNCTION}/configuration`)).toEqual([])
+  })
+
+  it('sends the zip itself for custom storage endpoints and creates a missing alias', async () => {
+    server = await startStubServer({
+      [`PUT ${FUNCTION}/code`]: { body: { CodeSha256: 'emlwaGFzaA==' } },
+      [`GET ${FUNCTION}/configuration`]: { body: { LastUpdateStatus: 'Successful' } },
+      [`PUT ${FUNCTION}/configuration`]: { body: {} },
+      [`POST ${FUNCTION}/versions`]: { status: 201, body: { Version: '1' } },
+      [`GET ${FUNCTION}/aliases/live`]: {
+        status: 404,
+        headers: { 'x-amzn-errortype': 'ResourceNotFoundException' },
+        body: { Type: 'User', message: 'Alias not found' }
+      },
+      [`POST ${FUNCTION}/aliases`]: { status: 201, body: { Name: 'live', FunctionVersion: '1' } }
+    })
+    const localPath = join(dir, 'function.zip')
+    writeFileSync(localPath, 'zip bytes')
+
+    const result = await new LambdaDeploymentService().deploy(
+      service,
+      S3ConfigSchema.parse({ bucket: 'artifacts', endpoint: 'http://minio.local:9000' }),
+      lambdaConfig({ alias: 'live', memorySize: 512, timeout: 30 }),
+      { ...artifact, localPath },
+      'x86_64'
+    )
+
+    expect(result.previousVersion).toBeUndefined()
+    expect(await bodies('PUT', `${FUNCTION}/code`)).toEqual([{ ZipFile: Buffer.from('zip bytes').toString('base64'), Architectures: ['x86_64'] }])
+    expect(await bodies('PUT', `${FUNCTION}/configuration`)).toEqual([{ MemorySize: 512, Timeout: 30 }])
+    expect(await bodies('POST', `${FUNCTION}/aliases`)).toEqual([{ Name: 'live', FunctionVersion: '1' }])
+  })
+
+  it('fails when Lambda reports the update failed', async () => {
+    server = await startStubServer({
+      [`PUT ${FUNCTION}/code`]: { body: { CodeSha256: 'c29tZWhhc2g=' } },
+      [`GET ${FUNCTION}/configuration`]: { body: { LastUpdateStatus: 'Failed', LastUpdateStatusReason: 'Unzipped size must be smaller than 262144000 bytes' } }
+    })
+
+    await expect(new LambdaDeploymentService().deploy(
+      service, S3ConfigSchema.parse({ bucket: 'artifacts' }), lambdaConfig(), artifact, 'x86_64'
+    )).rejects.toThrow('Lambda deployment failed: Function update failed: Unzipped size must be smaller than 262144000 bytes')
+
+    expect((await server.requests()).some(request => request.url.startsWith(`${FUNCTION}/versions`))).toBe(false)
+  })
+
+  it("refuses artifacts Lambda can't fetch from a custom storage endpoint", async () => {
+    await expect(new LambdaDeploymentService().deploy(
+      service, S3ConfigSchema.parse({ bucket: 'artifacts', endpoint: 'http://minio.local:9000' }), lambdaConfig(), artifact, 'x86_64'
+    )).rejects.toThrow('deploy without --skip-upload so the zip is sent directly')
+  })
+})
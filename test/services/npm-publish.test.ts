@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NpmDeploymentConfigSchema } from '../../src/config/schema.js'
+import { NpmPublishService } from '../../src/services/npm-publish.js'
+import { startStubServer, type StubServer } from '../helpers/stub-server.js'
+
+describe('NpmPublishService', () => {
+  let packageDir: string
+  let server: StubServer | undefined
+
+  const writePackage = (packageJson: object) => writeFileSync(join(packageDir, 'package.json'), JSON.stringify(packageJson))
+  const config = (overrides: object = {}) => NpmDeploymentConfigSchema.parse({ registry: server?.url, packageDir, token: 'npm_token', ...overrides })
+
+  beforeEach(() => {
+    packageDir = mkdtempSync(join(tmpdir(), 'heimdizzy-npm-package-'))
+    writeFileSync(join(packageDir, 'index.js'), 'export default 42\n')
+    writePackage({ name: '@nexus/client', version: '1.2.3', main: 'index.js' })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await server?.close()
+    server = undefined
+    rmSync(packageDir, { recursive: true, force: true })
+  })
+
+  it('packs and publishes a version the registry does not have yet', async () => {
+    server = await startStubServer({
+      'GET /@nexus%2fclient': { status: 404 },
+      'PUT /@nexus%2fclient': { status: 201, body: { ok: true } }
+    })
+
+    const result = await new NpmPublishService().publish(config({ tag: 'next', access: 'restricted' }))
+
+    expect(result).toMatchObject({ packageName: '@nexus/client', version: '1.2.3', tag: 'next', published: true, tarball: 'nexus-client-1.2.3.tgz' })
+    expect(result.integrity).toMatch(/^sha512-/)
+
+    const requests = await server.requests()
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/@nexus%2fclient' })
+    expect(requests[0].headers.authorization).toBe('Bearer npm_token')
+
+    const publish = requests.find(request => request.method === 'PUT')!
+    expect(publish.headers.authorization).toBe('Bearer npm_token')
+    const document = JSON.parse(publish.body)
+    expect(document['dist-tags']).toEqual({ next: '1.2.3' })
+    expect(document.access).toBe('restricted')
+    expect(document.versions['1.2.3'].dist.integrity).toBe(result.integrity)
+    expect(Object.keys(document._attachments)).toEqual(['@nexus/client-1.2.3.tgz'])
+  }, 60000)
+
+  it('skips versions that are already published', async () => {
+    server = await startStubServer({
+      'GET /@nexus%2fclient': { body: { name: '@nexus/client', versions: { '1.2.3': {} } } }
+    })
+
+    const result = await new NpmPublishService().publish(config())
+
+    expect(result.published).toBe(false)
+    expect((await server.requests()).map(request => request.method)).toEqual(['GET'])
+  })
+
+  it('fails when the registry cannot be queried', async () => {
+    server = await startStubServer({
+      'GET /@nexus%2fclient': { status: 500 }
+    })
+
+    await expect(new NpmPublishService().publish(config())).rejects.toThrow(`Failed to query ${server.url}/@nexus%2fclient: 500`)
+  })
+
+  it('refuses private packages', async () => {
+    writePackage({ name: '@nexus/internal', version: '1.0.0', private: true })
+
+    await expect(new NpmPublishService().publish(config({ registry: 'http://127.0.0.1:9' }))).rejects.toThrow('@nexus/internal is marked private and cannot be published')
+  })
+})
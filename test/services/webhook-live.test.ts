@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { LiveMessage } from '../../src/services/webhook-live.js'
+import { defaultMessage } from '../../src/services/webhook-providers.js'
+import type { WebhookEvent, WebhookPayload } from '../../src/services/webhook.js'
+
+function event(event: WebhookEvent, message: string, details?: WebhookPayload['details']): [WebhookPayload, ReturnType<typeof defaultMessage>] {
+  const payload: WebhookPayload = {
+    service: 'api',
+    product: 'nexus',
+    environment: 'production',
+    event,
+    message,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    details
+  }
+  return [payload, defaultMessage(payload)]
+}
+
+describe('LiveMessage', () => {
+  it("can't render before the first event", () => {
+    expect(() => new LiveMessage().render()).toThrow('Live message has no events yet')
+  })
+
+  it('moves checklist lines along as their steps progress', () => {
+    const live = new LiveMessage()
+    live.add(...event('deployStart', 'Starting deployment'))
+    live.add(...event('buildStart', 'Building'))
+    live.add(...event('buildSuccess', 'Build finished', { buildId: 'b1' }))
+    live.add(...event('uploadStart', 'Uploading'))
+
+    const { payload, message } = live.render()
+    expect(live.finished).toBe(false)
+    expect(payload.event).toBe('deployStart')
+    expect(message.title).toBe('🚀 Deployment Started')
+    expect(message.text).toBe([
+      '⏳ Starting deployment',
+      '✅ Build finished',
+      '⏳ Uploading'
+    ].join('\n'))
+  })
+
+  it('takes the outcome as its header and puts it at the bottom', () => {
+    const live = new LiveMessage()
+    live.add(...event('deployStart', 'Starting deployment'))
+    live.add(...event('uploadStart', 'Uploading'))
+    live.add(...event('deploySuccess', 'Deployed', { gitHash: 'abc1234', duration: 5000 }))
+
+    const { payload, message } = live.render()
+    expect(live.finished).toBe(true)
+    expect(payload.event).toBe('deploySuccess')
+    expect(message.title).toBe('✅ Deployment Completed')
+    // Steps still running when the run ended went the same way
+    expect(message.text).toBe('✅ Uploading\n✅ Deployed')
+    expect(message.fields).toContainEqual({ name: 'Git Hash', value: '`abc1234`', inline: true })
+  })
+
+  it('marks running steps failed when the run fails', () => {
+    const live = new LiveMessage()
+    live.add(...event('deployStart', 'Starting deployment'))
+    live.add(...event('podsRestarting', 'Restarting pods'))
+    live.add(...event('deployError', 'Deployment failed', { error: 'timeout' }))
+
+    expect(live.render().message.text).toBe('❌ Restarting pods\n❌ Deployment failed')
+  })
+
+  it('stays a failure when the automatic rollback after it succeeds', () => {
+    const live = new LiveMessage()
+    live.add(...event('deployStart', 'Starting deployment'))
+    live.add(...event('deployError', 'Deployment failed'))
+    live.add(...event('rollbackSuccess', 'Rolled back'))
+
+    const { payload, message } = live.render()
+    expect(payload.event).toBe('deployError')
+    expect(message.text).toBe('❌ Deployment failed\n✅ Rolled back')
+  })
+
+  it('gives events without a step a line of their own', () => {
+    const live = new LiveMessage()
+    live.add(...event('deployStart', 'Starting deployment'))
+    live.add(...event('manifestUpdated', 'Manifest updated', { commitHash: '0123456789abcdef' }))
+
+    const { message } = live.render()
+    expect(message.text).toBe('⏳ Starting deployment\n✅ Manifest updated')
+    expect(message.fields).toContainEqual({ name: 'Manifest Commit', value: '`0123456789ab`', inline: true })
+  })
+})
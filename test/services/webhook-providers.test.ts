@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import { NotificationTargetSchema } from '../../src/config/schema.js'
+import { createProvider, defaultMessage, mergeFields } from '../../src/services/webhook-providers.js'
+import type { WebhookPayload } from '../../src/services/webhook.js'
+
+const payload: WebhookPayload = {
+  service: 'api',
+  product: 'nexus',
+  environment: 'production',
+  event: 'deploySuccess',
+  message: 'Successfully deployed api to production',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  details: {
+    gitHash: 'abc1234',
+    imageName: 'registry.example.com/api:abc1234',
+    duration: 42000
+  }
+}
+
+const provider = (target: object) => createProvider(NotificationTargetSchema.parse(target))
+const rateLimited = (headers: Record<string, string>) => new Response(null, { status: 429, headers })
+
+describe('defaultMessage', () => {
+  it('titles the event and lists the payload details as fields', () => {
+    const message = defaultMessage(payload)
+
+    expect(message.title).toBe('✅ Deployment Completed')
+    expect(message.text).toBe(payload.message)
+    expect(message.fields).toEqual([
+      { name: 'Product', value: 'nexus', inline: true },
+      { name: 'Service', value: 'api', inline: true },
+      { name: 'Environment', value: 'production', inline: true },
+      { name: 'Git Hash', value: '`abc1234`', inline: true },
+      { name: 'Duration', value: '42s', inline: true },
+      { name: 'Image', value: '`registry.example.com/api:abc1234`', inline: false }
+    ])
+  })
+})
+
+describe('mergeFields', () => {
+  it('keeps the latest value of each field in order of first appearance', () => {
+    expect(mergeFields([
+      { title: 'a', text: '', fields: [{ name: 'Step', value: '1', inline: true }, { name: 'Size', value: '1 MB', inline: true }] },
+      { title: 'b', text: '', fields: [{ name: 'Step', value: '2', inline: true }] }
+    ])).toEqual([
+      { name: 'Step', value: '2', inline: true },
+      { name: 'Size', value: '1 MB', inline: true }
+    ])
+  })
+})
+
+describe('DiscordProvider', () => {
+  const discord = provider({ provider: 'discord', url: 'https://discord.com/api/webhooks/1/token?thread_id=9' })
+
+  it('formats an embed in the event colour', () => {
+    const { body, url } = discord.format(payload, defaultMessage(payload)) as any
+
+    expect(url).toBeUndefined()
+    expect(body.embeds).toHaveLength(1)
+    expect(body.embeds[0]).toMatchObject({
+      title: '✅ Deployment Completed',
+      description: payload.message,
+      color: 0x2ecc71,
+      timestamp: payload.timestamp
+    })
+  })
+
+  it('posts live messages with wait=true and edits them by id', () => {
+    const message = defaultMessage(payload)
+
+    const post = discord.formatLive(payload, message)
+    expect(post.method).toBeUndefined()
+    expect(post.url).toBe('https://discord.com/api/webhooks/1/token?thread_id=9&wait=true')
+
+    const edit = discord.formatLive(payload, message, '42')
+    expect(edit.method).toBe('PATCH')
+    expect(edit.url).toBe('https://discord.com/api/webhooks/1/token/messages/42?thread_id=9')
+  })
+
+  it('prefers its own fractional rate limit header', () => {
+    expect(discord.retryAfter(rateLimited({ 'X-RateLimit-Reset-After': '1.5', 'Retry-After': '10' }))).toBe(1500)
+    expect(discord.retryAfter(rateLimited({ 'Retry-After': '10' }))).toBe(10000)
+  })
+})
+
+describe('SlackProvider', () => {
+  const slack = provider({ provider: 'slack', url: 'https://hooks.slack.com/services/T/B/x' })
+
+  it('formats blocks with inline fields sharing a section', () => {
+    const { body } = slack.format(payload, defaultMessage(payload)) as any
+    const [attachment] = body.attachments
+
+    expect(body.text).toBe(`✅ Deployment Completed: ${payload.message}`)
+    expect(attachment.color).toBe('#2ecc71')
+    expect(attachment.blocks.map((block: any) => block.type)).toEqual(['header', 'section', 'section', 'section', 'context'])
+    expect(attachment.blocks[2].fields).toHaveLength(5)
+    expect(attachment.blocks[3].text.text).toBe('*Image*\n`registry.example.com/api:abc1234`')
+  })
+
+  it('splits more than ten inline fields over several sections', () => {
+    const fields = Array.from({ length: 12 }, (_, i) => ({ name: `Field ${i}`, value: `${i}`, inline: true }))
+    const { body } = slack.format(payload, { title: 'Title', text: 'Text', fields }) as any
+    const sections = body.attachments[0].blocks.filter((block: any) => block.fields)
+
+    expect(sections.map((section: any) => section.fields.length)).toEqual([10, 2])
+  })
+
+  it('uses the Web API for live messages', () => {
+    const live = provider({ provider: 'slack', live: true, token: 'xoxb-1', channel: 'C1' })
+    const message = defaultMessage(payload)
+
+    const post = live.formatLive(payload, message)
+    expect(post.url).toBe('https://slack.com/api/chat.postMessage')
+    expect(post.headers?.Authorization).toBe('Bearer xoxb-1')
+    expect(post.body).toMatchObject({ channel: 'C1' })
+
+    const update = live.formatLive(payload, message, 'C123 1700000000.000100')
+    expect(update.url).toBe('https://slack.com/api/chat.update')
+    expect(update.body).toMatchObject({ channel: 'C123', ts: '1700000000.000100' })
+  })
+
+  it('reads Retry-After as seconds or as an HTTP date', () => {
+    expect(slack.retryAfter(rateLimited({ 'Retry-After': '3' }))).toBe(3000)
+
+    const date = new Date(Date.now() + 60000).toUTCString()
+    const delay = slack.retryAfter(rateLimited({ 'Retry-After': date }))!
+    expect(delay).toBeGreaterThan(55000)
+    expect(delay).toBeLessThanOrEqual(60000)
+
+    expect(slack.retryAfter(rateLimited({}))).toBeUndefined()
+    expect(slack.retryAfter(rateLimited({ 'Retry-After': 'soon' }))).toBeUndefined()
+  })
+
+  it('refuses live Web API answers that report an error', async () => {
+    const live = provider({ provider: 'slack', live: true, token: 'xoxb-1', channel: 'C1' })
+    const response = new Response(JSON.stringify({ ok: false, error: 'invalid_auth' }))
+
+    await expect(live.liveReference(response)).rejects.toMatchObject({ message: 'Slack API error: invalid_auth', retryable: false })
+  })
+})
+
+describe('TeamsProvider', () => {
+  const teams = provider({ provider: 'teams', url: 'https://example.webhook.office.com/webhook' })
+
+  it('formats an Adaptive Card with the fields as facts', () => {
+    const { body } = teams.format(payload, defaultMessage(payload)) as any
+    const card = body.attachments[0].content
+
+    expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive')
+    expect(card.body[0].style).toBe('good')
+    expect(card.body[2].facts).toContainEqual({ title: 'Git Hash', value: 'abc1234' })
+  })
+
+  it("can't edit messages", () => {
+    expect(() => teams.formatLive(payload, defaultMessage(payload))).toThrow("teams targets can't edit messages")
+  })
+})
+
+describe('JsonProvider', () => {
+  it('sends the payload with the rendered message text', () => {
+    const json = provider({ provider: 'json', url: 'https://example.com/hook' })
+    const { body } = json.format(payload, { title: 'Title', text: 'Rendered', fields: [] })
+
+    expect(body).toEqual({ ...payload, message: 'Rendered' })
+  })
+
+  it('wraps the payload in a CloudEvents envelope', () => {
+    const json = provider({ provider: 'json', url: 'https://example.com/hook', cloudEvents: true })
+    const { body, headers } = json.format(payload, defaultMessage(payload)) as any
+
+    expect(headers).toEqual({ 'Content-Type': 'application/cloudevents+json' })
+    expect(body).toMatchObject({
+      specversion: '1.0',
+      source: 'heimdizzy/nexus/api',
+      type: 'com.heimdizzy.deploySuccess',
+      subject: 'production',
+      time: payload.timestamp,
+      data: payload
+    })
+    expect(body.id).toEqual(expect.any(String))
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NotificationSchema, NotificationTargetSchema } from '../../src/config/schema.js'
+import { NotificationQueue } from '../../src/services/webhook-queue.js'
+import { defaultMessage } from '../../src/services/webhook-providers.js'
+import type { WebhookEvent, WebhookPayload } from '../../src/services/webhook.js'
+
+const discord = NotificationTargetSchema.parse({ provider: 'discord', url: 'https://discord.com/api/webhooks/1/secret' })
+const json = NotificationTargetSchema.parse({ provider: 'json', url: 'https://example.com/hook' })
+
+function payload(event: WebhookEvent, message: string = event): WebhookPayload {
+  return { service: 'api', product: 'nexus', environment: 'production', event, message, timestamp: new Date().toISOString() }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('NotificationQueue', () => {
+  let dir: string
+  let fetch: ReturnType<typeof vi.fn>
+
+  const createQueue = (delivery: object = {}) => new NotificationQueue(NotificationSchema.parse({
+    delivery: { retryDelay: 1, maxRetryDelay: 5, coalesceWindow: 0, spoolPath: join(dir, 'spool.jsonl'), ...delivery }
+  }).delivery, 1)
+  const enqueue = (queue: NotificationQueue, target: typeof discord, data: WebhookPayload) => queue.enqueue(target, data, defaultMessage(data))
+  const responses = (...statuses: number[]) => statuses.forEach(status => fetch.mockResolvedValueOnce(new Response(null, { status })))
+  const spooled = () => readFileSync(join(dir, 'spool.jsonl'), 'utf-8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heimdizzy-queue-'))
+    fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }))
+    vi.stubGlobal('fetch', fetch)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('retries server errors until the target accepts', async () => {
+    responses(500, 503)
+    const queue = createQueue()
+    enqueue(queue, discord, payload('deploySuccess'))
+    await queue.flush()
+
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(existsSync(join(dir, 'spool.jsonl'))).toBe(false)
+  })
+
+  it('waits out rate limits before retrying', async () => {
+    fetch.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'X-RateLimit-Reset-After': '0.05' } }))
+    const queue = createQueue()
+    enqueue(queue, discord, payload('deploySuccess'))
+
+    const started = Date.now()
+    await queue.flush()
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45)
+  })
+
+  it("doesn't retry requests the target rejects", async () => {
+    responses(400)
+    const queue = createQueue()
+    enqueue(queue, discord, payload('deploySuccess'))
+    await queue.flush()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(existsSync(join(dir, 'spool.jsonl'))).toBe(false)
+  })
+
+  it('delivers in order per target', async () => {
+    responses(500)
+    const queue = createQueue()
+    enqueue(queue, json, payload('deployStart'))
+    enqueue(queue, json, payload('deploySuccess'))
+    await queue.flush()
+
+    const events = fetch.mock.calls.map(([, init]) => JSON.parse(init.body).event)
+    expect(events).toEqual(['deployStart', 'deployStart', 'deploySuccess'])
+  })
+
+  it('coalesces a burst of progress events into one chat message', async () => {
+    const queue = createQueue({ coalesceWindow: 50 })
+    enqueue(queue, discord, payload('buildStart', 'Building'))
+    enqueue(queue, discord, payload('buildSuccess', 'Built'))
+    enqueue(queue, json, payload('buildStart'))
+    enqueue(queue, json, payload('buildSuccess'))
+    await queue.flush()
+
+    const chat = fetch.mock.calls.filter(([url]) => url === discord.url)
+    expect(chat).toHaveLength(1)
+    expect(JSON.parse(chat[0][1].body).embeds[0].description).toBe('🔨 Build Started: Building\n✅ Build Completed: Built')
+    // Raw JSON consumers get one request per event
+    expect(fetch.mock.calls.filter(([url]) => url === json.url)).toHaveLength(2)
+  })
+
+  it('spools what it gives up on and resends it on the next run', async () => {
+    fetch.mockResolvedValue(new Response(null, { status: 500 }))
+    const first = createQueue({ maxRetries: 1 })
+    enqueue(first, discord, payload('deploySuccess'))
+    enqueue(first, discord, payload('uploadStart'))
+    await first.flush()
+
+    const entries = spooled()
+    // Progress events are stale by the next run
+    expect(entries.map(entry => entry.payload.event)).toEqual(['deploySuccess'])
+    // Webhook URLs never land on disk
+    expect(readFileSync(join(dir, 'spool.jsonl'), 'utf-8')).not.toContain('secret')
+
+    fetch.mockReset()
+    fetch.mockResolvedValue(new Response(null, { status: 204 }))
+    const second = createQueue()
+    second.resend([json, discord])
+    await second.flush()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(fetch.mock.calls[0][0]).toBe(discord.url)
+    expect(existsSync(join(dir, 'spool.jsonl'))).toBe(false)
+  })
+
+  it('drops spooled entries for targets that are no longer configured', async () => {
+    fetch.mockResolvedValue(new Response(null, { status: 500 }))
+    const first = createQueue({ maxRetries: 0 })
+    enqueue(first, discord, payload('deploySuccess'))
+    await first.flush()
+
+    fetch.mockReset()
+    const second = createQueue()
+    second.resend([json])
+    await second.flush()
+
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('spools a delivery waiting to retry at the flush timeout and never sends it as well', async () => {
+    fetch.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'X-RateLimit-Reset-After': '0.2' } }))
+    const queue = createQueue({ flushTimeout: 20 })
+    enqueue(queue, discord, payload('deploySuccess'))
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('retrying in 200ms')))
+
+    const started = Date.now()
+    await queue.flush()
+    expect(Date.now() - started).toBeLessThan(150)
+    expect(spooled().map(entry => entry.payload.event)).toEqual(['deploySuccess'])
+
+    // Past the point where the retry would have gone out
+    await sleep(300)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves a request still on the wire at the flush timeout out of the spool', async () => {
+    fetch.mockReturnValueOnce(sleep(100).then(() => new Response(null, { status: 204 })))
+    const queue = createQueue({ flushTimeout: 20 })
+    enqueue(queue, discord, payload('deploySuccess'))
+    enqueue(queue, discord, payload('rollbackSuccess'))
+    await queue.flush()
+
+    expect(spooled().map(entry => entry.payload.event)).toEqual(['rollbackSuccess'])
+
+    await sleep(150)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})